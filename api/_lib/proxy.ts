@@ -0,0 +1,182 @@
+// api/_lib/proxy.ts
+//
+// Shared plumbing of the serverless proxy. Files under `_lib` are not deployed as routes.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { BACKGROUND_PRESETS, BackgroundMode, BackgroundPreset, BoundingBox, GARMENT_CATEGORIES, GarmentSelection, Language, ProxyErrorResponse, TryOnProviderId, UsageRecord } from '../../src/types';
+import { FitUpError, FitUpErrorCode, toFitUpError } from '../../src/services/errors';
+import { setRuntimeApiKey, setUsageRecorder } from '../../src/services/geminiService';
+import { getTryOnProvider, TryOnProvider } from '../../src/services/tryOnProvider';
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Requests allowed per client IP per window. */
+const RATE_LIMIT_MAX = readNumber(process.env.FITUP_RATE_LIMIT, 20);
+const RATE_LIMIT_WINDOW_MS = 60_000;
+/** Largest accepted request body. Vercel rejects bodies over 4.5 MB before they reach the function anyway. */
+const MAX_PAYLOAD_BYTES = readNumber(process.env.FITUP_MAX_PAYLOAD_BYTES, 4_000_000);
+
+const MODEL_NAME_PATTERN = /^gemini-[\w.-]+$/;
+
+/**
+ * The provider the proxy forwards to. FITUP_PROVIDER=mock serves canned results so the proxy can
+ * be tried without a Google key. Gemini uses GEMINI_API_KEY (or API_KEY) from the server environment.
+ */
+export const getServerProvider = (): TryOnProvider => {
+    const id: TryOnProviderId = process.env.FITUP_PROVIDER === 'mock' ? 'mock' : 'gemini';
+    if (id === 'gemini') {
+        setRuntimeApiKey(process.env.GEMINI_API_KEY ?? process.env.API_KEY ?? null);
+    }
+    return getTryOnProvider(id);
+};
+
+export const isModelName = (value: unknown): value is string => typeof value === 'string' && MODEL_NAME_PATTERN.test(value);
+
+export const isLanguage = (value: unknown): value is Language => value === 'en' || value === 'ko';
+
+export const isBoundingBox = (value: unknown): value is BoundingBox => {
+    const box = value as Partial<Record<keyof BoundingBox, unknown>> | null;
+    return !!box && [box.x, box.y, box.width, box.height].every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
+export const isGarmentSelection = (value: unknown): value is GarmentSelection => {
+    const garment = value as Partial<GarmentSelection> | null;
+    return (
+        !!garment &&
+        typeof garment.sourceImage === 'string' &&
+        isBoundingBox(garment.box) &&
+        GARMENT_CATEGORIES.includes(garment.category as GarmentSelection['category']) &&
+        (garment.mask === undefined || typeof garment.mask === 'string')
+    );
+};
+
+export const isBackgroundMode = (value: unknown): value is BackgroundMode => {
+    const background = value as Partial<Record<string, unknown>> | null;
+    switch (background?.type) {
+        case 'preserve':
+        case 'studio':
+            return true;
+        case 'preset':
+            return BACKGROUND_PRESETS.includes(background.preset as BackgroundPreset);
+        case 'custom':
+            return typeof background.image === 'string';
+        default:
+            return false;
+    }
+};
+
+/**
+ * A request the proxy refuses on its own, before anything is sent upstream. Only these errors
+ * tell the browser what was wrong; see `errorResponse`.
+ */
+export class ProxyRequestError extends FitUpError {
+    constructor(code: 'invalidRequest' | 'payloadTooLarge', detail: string) {
+        super(code, { providerDetail: detail });
+    }
+}
+
+// The model calls of each request are collected separately, even when an instance serves
+// several requests at once, and returned with its response.
+const requestUsage = new AsyncLocalStorage<UsageRecord[]>();
+setUsageRecorder(record => requestUsage.getStore()?.push(record));
+
+// Fixed-window counters per IP. They live as long as the function instance, which is enough
+// to stop a single client from hammering one instance; it is not a global quota.
+const rateLimitWindows = new Map<string, { startedAt: number; count: number }>();
+
+const clientIp = (request: Request): string =>
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+
+/**
+ * Counts the request against its IP and returns how many seconds to wait if the limit is reached.
+ */
+const checkRateLimit = (ip: string, now = Date.now()): number | null => {
+    for (const [key, window] of rateLimitWindows) {
+        if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) rateLimitWindows.delete(key);
+    }
+    const window = rateLimitWindows.get(ip) ?? { startedAt: now, count: 0 };
+    window.count++;
+    rateLimitWindows.set(ip, window);
+    if (window.count <= RATE_LIMIT_MAX) {
+        return null;
+    }
+    return Math.ceil((window.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000);
+};
+
+const STATUS_FOR_CODE: Partial<Record<FitUpErrorCode, number>> = {
+    apiKeyMissing: 500,
+    invalidApiKey: 500,
+    quotaExceeded: 429,
+    invalidImage: 400,
+    invalidRequest: 400,
+    payloadTooLarge: 413,
+    safetyBlocked: 422,
+    cancelled: 499,
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+/**
+ * Answers a failed request with the proxy's own status for the error code. Upstream statuses and
+ * messages are not passed on: they describe the server's key and setup, not the browser's request.
+ */
+const errorResponse = (error: FitUpError, usage: UsageRecord[] = []): Response => {
+    const body: ProxyErrorResponse = {
+        code: error.code,
+        detail: error instanceof ProxyRequestError ? error.providerDetail : undefined,
+        usage,
+    };
+    return jsonResponse(body, STATUS_FOR_CODE[error.code] ?? 502);
+};
+
+/**
+ * Wraps a proxy endpoint: only POST is accepted, every request is rate limited per IP, the body is
+ * size-checked and parsed as JSON, and any thrown error is answered as a `ProxyErrorResponse`.
+ * The model calls made while handling the request are added to the response as `usage`.
+ * @param handle Receives the parsed body and the request's abort signal, and returns the response body.
+ */
+export const handleProxyRequest = async (
+    request: Request,
+    handle: (body: unknown, signal: AbortSignal) => Promise<object>
+): Promise<Response> => {
+    if (request.method !== 'POST') {
+        return jsonResponse({ code: 'invalidRequest', detail: 'Method not allowed' } satisfies ProxyErrorResponse, 405, { Allow: 'POST' });
+    }
+
+    const retryAfter = checkRateLimit(clientIp(request));
+    if (retryAfter !== null) {
+        const body: ProxyErrorResponse = { code: 'quotaExceeded', detail: 'Too many requests to the proxy' };
+        return jsonResponse(body, 429, { 'Retry-After': String(retryAfter) });
+    }
+
+    const declaredLength = Number(request.headers.get('content-length'));
+    if (declaredLength > MAX_PAYLOAD_BYTES) {
+        return errorResponse(new ProxyRequestError('payloadTooLarge', `Limit is ${MAX_PAYLOAD_BYTES} bytes`));
+    }
+
+    const usage: UsageRecord[] = [];
+    try {
+        const raw = await request.arrayBuffer();
+        if (raw.byteLength > MAX_PAYLOAD_BYTES) {
+            throw new ProxyRequestError('payloadTooLarge', `Limit is ${MAX_PAYLOAD_BYTES} bytes`);
+        }
+        let body: unknown;
+        try {
+            body = JSON.parse(new TextDecoder().decode(raw));
+        } catch {
+            throw new ProxyRequestError('invalidRequest', 'Body is not valid JSON');
+        }
+        const result = await requestUsage.run(usage, () => handle(body, request.signal));
+        return jsonResponse({ ...result, usage });
+    } catch (e) {
+        console.error('Proxy request failed:', e);
+        return errorResponse(toFitUpError(e, 'serverError'), usage);
+    }
+};
@@ -0,0 +1,28 @@
+// api/background.ts
+//
+// POST /api/background — background replacement of a result on behalf of the browser.
+
+import { BackgroundProxyRequest, ImageProxyResponse } from '../src/types';
+import { getServerProvider, handleProxyRequest, isBackgroundMode, isLanguage, isModelName, ProxyRequestError } from './_lib/proxy';
+
+const parseBody = (body: unknown): BackgroundProxyRequest => {
+    const { image, background, language, modelName, template } = (body ?? {}) as Partial<BackgroundProxyRequest>;
+    if (
+        typeof image !== 'string' ||
+        !isBackgroundMode(background) ||
+        !isLanguage(language) ||
+        !isModelName(modelName)
+    ) {
+        throw new ProxyRequestError('invalidRequest', 'Expected image, background, language and modelName');
+    }
+    if (template !== undefined && typeof template !== 'string') {
+        throw new ProxyRequestError('invalidRequest', 'template must be a string');
+    }
+    return { image, background, language, modelName, template };
+};
+
+export const POST = (request: Request): Promise<Response> =>
+    handleProxyRequest(request, async (body, signal): Promise<ImageProxyResponse> => {
+        const { image, background, language, modelName, template } = parseBody(body);
+        return { image: await getServerProvider().replaceBackground(image, background, language, modelName, template, signal) };
+    });
@@ -0,0 +1,26 @@
+// api/detect.ts
+//
+// POST /api/detect — person or garment detection on behalf of the browser.
+
+import { DetectProxyRequest, DetectProxyResponse } from '../src/types';
+import { getServerProvider, handleProxyRequest, isModelName, ProxyRequestError } from './_lib/proxy';
+
+const parseBody = (body: unknown): DetectProxyRequest => {
+    const { target, image, modelName, prompt } = (body ?? {}) as Partial<DetectProxyRequest>;
+    if ((target !== 'people' && target !== 'garments') || typeof image !== 'string' || !isModelName(modelName)) {
+        throw new ProxyRequestError('invalidRequest', 'Expected target, image and modelName');
+    }
+    if (prompt !== undefined && typeof prompt !== 'string') {
+        throw new ProxyRequestError('invalidRequest', 'prompt must be a string');
+    }
+    return { target, image, modelName, prompt };
+};
+
+export const POST = (request: Request): Promise<Response> =>
+    handleProxyRequest(request, async (body, signal): Promise<DetectProxyResponse> => {
+        const { target, image, modelName, prompt } = parseBody(body);
+        const provider = getServerProvider();
+        return target === 'people'
+            ? { people: await provider.detectPeopleInImage(image, modelName, prompt, signal) }
+            : { garments: await provider.detectGarmentsInImage(image, modelName, prompt, signal) };
+    });
@@ -0,0 +1,31 @@
+// api/generate.ts
+//
+// POST /api/generate — one try-on generation on behalf of the browser.
+
+import { GenerateProxyRequest, GenerateProxyResponse } from '../src/types';
+import { getServerProvider, handleProxyRequest, isBackgroundMode, isBoundingBox, isGarmentSelection, isLanguage, isModelName, ProxyRequestError } from './_lib/proxy';
+
+const parseBody = (body: unknown): GenerateProxyRequest => {
+    const { request, modelName } = (body ?? {}) as Partial<GenerateProxyRequest>;
+    if (
+        !request ||
+        typeof request.targetImage !== 'string' ||
+        !isBoundingBox(request.personBox) ||
+        !Array.isArray(request.garments) ||
+        request.garments.length === 0 ||
+        !request.garments.every(isGarmentSelection) ||
+        !isLanguage(request.language) ||
+        (request.background !== undefined && !isBackgroundMode(request.background)) ||
+        !isModelName(modelName)
+    ) {
+        throw new ProxyRequestError('invalidRequest', 'Expected a try-on request with garments and modelName');
+    }
+    return { request, modelName };
+};
+
+export const POST = (request: Request): Promise<Response> =>
+    handleProxyRequest(request, async (body, signal): Promise<GenerateProxyResponse> => {
+        const parsed = parseBody(body);
+        const image = await getServerProvider().generateVirtualTryOnImage(parsed.request, parsed.modelName, signal);
+        return { image };
+    });
@@ -0,0 +1,34 @@
+// api/refine.ts
+//
+// POST /api/refine — one follow-up edit of a result on behalf of the browser.
+
+import { ImageProxyResponse, RefinementTurn, RefineProxyRequest } from '../src/types';
+import { getServerProvider, handleProxyRequest, isLanguage, isModelName, ProxyRequestError } from './_lib/proxy';
+
+const isTurn = (value: unknown): value is RefinementTurn => {
+    const turn = value as Partial<RefinementTurn> | null;
+    return !!turn && typeof turn.instruction === 'string' && typeof turn.image === 'string';
+};
+
+const parseBody = (body: unknown): RefineProxyRequest => {
+    const { request, modelName } = (body ?? {}) as Partial<RefineProxyRequest>;
+    if (
+        !request ||
+        typeof request.baseImage !== 'string' ||
+        !Array.isArray(request.turns) ||
+        !request.turns.every(isTurn) ||
+        typeof request.instruction !== 'string' ||
+        !isLanguage(request.language) ||
+        (request.template !== undefined && typeof request.template !== 'string') ||
+        !isModelName(modelName)
+    ) {
+        throw new ProxyRequestError('invalidRequest', 'Expected a refinement request with an instruction and modelName');
+    }
+    return { request, modelName };
+};
+
+export const POST = (request: Request): Promise<Response> =>
+    handleProxyRequest(request, async (body, signal): Promise<ImageProxyResponse> => {
+        const parsed = parseBody(body);
+        return { image: await getServerProvider().refineTryOnImage(parsed.request, parsed.modelName, signal) };
+    });
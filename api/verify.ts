@@ -0,0 +1,31 @@
+// api/verify.ts
+//
+// POST /api/verify — the automatic check of a result on behalf of the browser.
+
+import { VerifyProxyRequest, VerifyProxyResponse } from '../src/types';
+import { getServerProvider, handleProxyRequest, isBoundingBox, isModelName, ProxyRequestError } from './_lib/proxy';
+
+const parseBody = (body: unknown): VerifyProxyRequest => {
+    const { request, modelName, template } = (body ?? {}) as Partial<VerifyProxyRequest>;
+    if (
+        !request ||
+        typeof request.targetImage !== 'string' ||
+        typeof request.resultImage !== 'string' ||
+        !isBoundingBox(request.personBox) ||
+        !Array.isArray(request.garmentImages) ||
+        !request.garmentImages.every(image => typeof image === 'string') ||
+        !isModelName(modelName)
+    ) {
+        throw new ProxyRequestError('invalidRequest', 'Expected a verification request and modelName');
+    }
+    if (template !== undefined && typeof template !== 'string') {
+        throw new ProxyRequestError('invalidRequest', 'template must be a string');
+    }
+    return { request, modelName, template };
+};
+
+export const POST = (request: Request): Promise<Response> =>
+    handleProxyRequest(request, async (body, signal): Promise<VerifyProxyResponse> => {
+        const parsed = parseBody(body);
+        return { verification: await getServerProvider().verifyTryOnResult(parsed.request, parsed.modelName, parsed.template, signal) };
+    });
@@ -1,75 +1,244 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { AppState, BoundingBox, DetectedPerson, HistoryItem, AppSettings } from './types';
+import React, { useState, useEffect, useCallback, useReducer, useRef } from 'react';
+import { AppState, BatchItem, BoundingBox, DetectedGarment, DetectedPerson, HistoryItem, AppSettings, GarmentCategory, PersonOutfit, ResultCandidate, Language, PromptTemplates, GenerationOptions, DEFAULT_GENERATION_OPTIONS, BackgroundMode, TryOnRequest, VerificationResult, CachedGeneration, UsageRecord } from './types';
 import { useLocalization } from './context/LocalizationContext';
-import { detectPeopleInImage, generateVirtualTryOnImage, isApiKeyAvailable } from './services/geminiService';
-import { blobToBase64, urlToBase64 } from './utils/fileUtils';
+import { isApiKeyAvailable, setUsageRecorder } from './services/geminiService';
+import { DEFAULT_PROXY_BASE_URL, setProxyBaseUrl } from './services/proxyProvider';
+import { ApiKeyStatus, getStoredApiKeyStatus, lockApiKey, removeApiKey, saveApiKey, unlockApiKey } from './services/apiKeyService';
+import { getTryOnProvider } from './services/tryOnProvider';
+import { generateCandidates, verifyCandidates } from './services/candidateService';
+import { cachedDetection, CacheStats, detectionCacheKey, generationCacheKey, getCacheStats, readCachedGeneration, writeCachedGeneration } from './services/cacheService';
+import { checkSoftLimits, DEFAULT_MODEL_PRICES, SoftLimitWarning } from './services/usageService';
+import { DEFAULT_BATCH_CONCURRENCY, getBatchProgress, nextBatchItems, pickBatchGarment } from './services/batchService';
+import { withFollowUpSteps } from './services/groupService';
+import { canCancel, canGoBack, getNextPersonToDress, INITIAL_WORKFLOW_STATE, transition, WorkflowCommand, WorkflowEvent, workflowReducer } from './services/workflow';
+import { routeForStep, stepForRoute } from './services/routes';
+import { toFitUpError } from './services/errors';
+import { DEFAULT_PROMPT_TEMPLATES } from './services/promptTemplates';
+import { DEFAULT_MAX_IMAGE_EDGE, MAX_UPLOAD_BYTES, MAX_UPLOAD_MB, normalizeImage, NormalizedImage, urlToBase64 } from './utils/fileUtils';
+import { cropAroundPerson, stitchIntoOriginal, toCropBox, unionBox } from './utils/stitch';
 import { checkImageQuality } from './utils/imageQuality';
+import { findCompatibilityIssues } from './utils/compatibility';
+import { getVersionChain, getVersions } from './utils/versions';
 
 import { ImageUploader } from './components/ImageUploader';
 import { PersonSelector } from './components/PersonSelector';
 import { ImageEditor } from './components/ImageEditor';
 import { History } from './components/History';
 import { Settings } from './components/Settings';
-import { saveSession, loadSession, saveHistoryItem, loadAllHistoryItems, clearHistory, clearSession } from './utils/db';
+import { GarmentList } from './components/GarmentList';
+import { GarmentCategoryPicker } from './components/GarmentCategoryPicker';
+import { CandidateGrid } from './components/CandidateGrid';
+import { GenerationOptionsPanel } from './components/GenerationOptionsPanel';
+import { BackgroundPicker } from './components/BackgroundPicker';
+import { RefinementPanel } from './components/RefinementPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { GroupOutfitPanel } from './components/GroupOutfitPanel';
+import { saveSession, loadSession, saveHistoryItem, deleteHistoryItem, loadAllHistoryItems, clearHistory, clearSession, loadPromptTemplates, savePromptTemplates, deletePromptTemplates, clearCache, saveUsageRecord, loadUsageRecords, clearUsageRecords } from './utils/db';
 
 
-const LoadingSpinner: React.FC<{ message: string }> = ({ message }) => (
+const LoadingSpinner: React.FC<{ message: string; onCancel?: () => void; cancelLabel?: string }> = ({ message, onCancel, cancelLabel }) => (
     <div className="flex flex-col items-center justify-center text-center p-8">
         <svg className="animate-spin -ml-1 mr-3 h-10 w-10 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
         <p className="mt-4 text-lg text-gray-300">{message}</p>
+        {onCancel && (
+            <button onClick={onCancel} className="mt-6 px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold transition-colors duration-300">
+                {cancelLabel}
+            </button>
+        )}
     </div>
 );
 
+/**
+ * Turns a set of generated images into fresh result candidates.
+ * Each id is offset by a millisecond so the ids stay unique, valid ISO timestamps for history.
+ */
+const toCandidates = ({ images, verifications }: CachedGeneration): ResultCandidate[] => {
+    const startedAt = Date.now();
+    return images.map((image, index) => ({
+        id: new Date(startedAt + index).toISOString(),
+        image,
+        status: 'pending',
+        isFavorite: false,
+        verification: verifications[index],
+    }));
+};
+
 const App: React.FC = () => {
-    const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-    const [targetImage, setTargetImage] = useState<string | null>(null);
-    const [sourceImage, setSourceImage] = useState<string | null>(null);
-    const [detectedPeople, setDetectedPeople] = useState<DetectedPerson[]>([]);
-    const [selectedPerson, setSelectedPerson] = useState<DetectedPerson | null>(null);
-    const [sourceGarmentBox, setSourceGarmentBox] = useState<BoundingBox | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    // The step flow and its inputs change only through workflow events; see services/workflow.
+    const [{ state: workflow, commands }, dispatch] = useReducer(workflowReducer, { state: INITIAL_WORKFLOW_STATE, commands: [] });
+    const {
+        step: appState, targetImage, sourceImage, targetImageMapping, targetOriginalImage, detectedPeople, selectedPeople, selectedPerson,
+        dressedPeople, sameOutfitForAll, sourceGarmentBox, sourceGarmentMask, garmentCategory, garments, error, errorDetail, failedStep,
+    } = workflow;
+    // The detection or generation run that a Cancel, Start Over or newer run aborts.
+    const stepControllerRef = useRef<AbortController | null>(null);
+    // Garments found in the source image, offered as shortcuts to drawing a box by hand.
+    const [garmentDetection, setGarmentDetection] = useState<{ sourceImage: string; garments: DetectedGarment[] } | null>(null);
+    const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+    const [background, setBackground] = useState<BackgroundMode>({ type: 'preserve' });
+    const [candidates, setCandidates] = useState<ResultCandidate[]>([]);
+    // Re-applying a background to one of the results.
+    const [backgroundTargetId, setBackgroundTargetId] = useState<string | null>(null);
+    const [replacementBackground, setReplacementBackground] = useState<BackgroundMode>({ type: 'studio' });
+    const [isReplacingBackground, setIsReplacingBackground] = useState(false);
+    const [backgroundError, setBackgroundError] = useState<string | null>(null);
+    const backgroundControllerRef = useRef<AbortController | null>(null);
+    // Refining one of the results; the id is the history item of the version being shown.
+    const [refineVersionId, setRefineVersionId] = useState<string | null>(null);
+    const [isRefining, setIsRefining] = useState(false);
+    const [refineError, setRefineError] = useState<string | null>(null);
+    const refineControllerRef = useRef<AbortController | null>(null);
+    // An earlier result for exactly the current inputs, offered instead of generating again.
+    const [cachedGeneration, setCachedGeneration] = useState<CachedGeneration | null>(null);
+    // The cache lookup of a Generate click; aborted when the inputs change before it finishes.
+    const cacheLookupControllerRef = useRef<AbortController | null>(null);
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+    // Batch mode: the selected person against many garment images, one generation each.
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+    const [batchCategory, setBatchCategory] = useState<GarmentCategory>('top');
+    const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+    // Set once the queue is started; its results are grouped under this id in the history.
+    const [batchId, setBatchId] = useState<string | null>(null);
+    const [isBatchPaused, setIsBatchPaused] = useState(true);
+    const [batchUploadErrors, setBatchUploadErrors] = useState<string[]>([]);
+    const batchControllersRef = useRef(new Map<string, AbortController>());
     const [history, setHistory] = useState<HistoryItem[]>([]);
-    const [error, setError] = useState<string | null>(null);
     const [loadingMessage, setLoadingMessage] = useState('');
     const [imageUrl, setImageUrl] = useState('');
     const [isFetchingUrl, setIsFetchingUrl] = useState(false);
     const [isPasting, setIsPasting] = useState(false);
     const [showRestoreNotification, setShowRestoreNotification] = useState(false);
     const [isApiKeySet, setIsApiKeySet] = useState(false);
+    const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus>('none');
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [appSettings, setAppSettings] = useState<AppSettings>({
+      provider: 'gemini',
+      proxyBaseUrl: DEFAULT_PROXY_BASE_URL,
       detectionModel: 'gemini-2.5-flash',
       generationModel: 'gemini-2.5-flash-image',
+      candidateCount: 1,
+      candidateMode: 'parallel',
+      verifyResults: false,
+      cropAndStitch: false,
+      maxImageEdge: DEFAULT_MAX_IMAGE_EDGE,
+      modelPrices: DEFAULT_MODEL_PRICES,
+      dailyGenerationLimit: 0,
+      dailyCostLimit: 0,
     });
+    const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+    // Soft limits today's usage would cross; shown instead of starting the generation.
+    const [limitWarnings, setLimitWarnings] = useState<SoftLimitWarning[] | null>(null);
+    const [promptTemplates, setPromptTemplates] = useState<Record<Language, PromptTemplates>>(DEFAULT_PROMPT_TEMPLATES);
     
     const { t, language, setLanguage } = useLocalization();
+
+    // Every step has a hash route: forward transitions push a browser history entry and going back
+    // through the history steps the workflow back, so the browser's Back button works like ours.
+    const workflowRef = useRef(workflow);
+    workflowRef.current = workflow;
+    // Position of the current entry among the app's own history entries; null until the first route is written.
+    const routeIndexRef = useRef<number | null>(null);
+    // The route the page was opened with, applied once the saved session is restored.
+    const initialRouteRef = useRef(window.location.hash);
+
+    // Applies events that move back or within the history, rewriting the current entry to the
+    // resulting step's route instead of pushing a new one.
+    const applyReplacingRoute = useCallback((events: WorkflowEvent[]) => {
+        let state = workflowRef.current;
+        for (const event of events) {
+            state = transition(state, event).state;
+            dispatch(event);
+        }
+        workflowRef.current = state;
+        const route = routeForStep(state.step);
+        if (route) {
+            window.history.replaceState({ routeIndex: routeIndexRef.current ?? 0 }, '', route);
+        }
+    }, []);
+
+    useEffect(() => {
+        const route = routeForStep(appState);
+        if (routeIndexRef.current === null) {
+            // Keep the index of an entry that survived a reload so going back still counts as back.
+            const savedIndex = window.history.state?.routeIndex;
+            routeIndexRef.current = typeof savedIndex === 'number' ? savedIndex : 0;
+            window.history.replaceState({ routeIndex: routeIndexRef.current }, '', route ?? '#/');
+            return;
+        }
+        if (!route || window.location.hash === route) return;
+        routeIndexRef.current += 1;
+        window.history.pushState({ routeIndex: routeIndexRef.current }, '', route);
+    }, [appState]);
+
+    useEffect(() => {
+        const handlePopState = (event: PopStateEvent) => {
+            const index = event.state?.routeIndex;
+            const currentIndex = routeIndexRef.current ?? 0;
+            // Entries without an index come from editing the URL by hand.
+            const direction = typeof index !== 'number' ? undefined : index < currentIndex ? 'back' : 'forward';
+            routeIndexRef.current = typeof index === 'number' ? index : currentIndex + 1;
+            const step = stepForRoute(window.location.hash);
+            applyReplacingRoute(step === null ? [] : [{ type: 'navigated', step, direction }]);
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, [applyReplacingRoute]);
     
     useEffect(() => {
         const loadInitialData = async () => {
             setIsApiKeySet(isApiKeyAvailable());
-            const [savedState, savedHistory] = await Promise.all([
+            getStoredApiKeyStatus()
+                .then(setApiKeyStatus)
+                .catch(e => console.error("Failed to read the stored API key", e));
+            const [savedState, savedHistory, savedTemplates, savedUsage] = await Promise.all([
                 loadSession(),
-                loadAllHistoryItems()
+                loadAllHistoryItems(),
+                loadPromptTemplates(),
+                loadUsageRecords(),
             ]);
+            // Calls recorded while loading are already in state; keep them.
+            setUsageRecords(prev => [...savedUsage, ...prev]);
             
             if (savedHistory) {
                 setHistory(savedHistory);
             }
+            // Merge per kind so templates saved before a kind existed still get its default.
+            setPromptTemplates(prev => ({
+                ko: { ...prev.ko, ...savedTemplates.ko },
+                en: { ...prev.en, ...savedTemplates.en },
+            }));
             
+            const events: WorkflowEvent[] = [];
             if (savedState && savedState.appState) {
                  try {
-                    setAppState(savedState.appState);
-                    setTargetImage(savedState.targetImage || null);
-                    setSourceImage(savedState.sourceImage || null);
-                    setDetectedPeople(savedState.detectedPeople || []);
-                    setSelectedPerson(savedState.selectedPerson || null);
-                    setSourceGarmentBox(savedState.sourceGarmentBox || null);
+                    events.push({
+                        type: 'restore',
+                        state: {
+                            step: savedState.appState,
+                            targetImage: savedState.targetImage || null,
+                            sourceImage: savedState.sourceImage || null,
+                            targetImageMapping: savedState.targetImageMapping || null,
+                            targetOriginalImage: savedState.targetOriginalImage || null,
+                            detectedPeople: savedState.detectedPeople || [],
+                            selectedPerson: savedState.selectedPerson || null,
+                            selectedPeople: savedState.selectedPeople || (savedState.selectedPerson ? [savedState.selectedPerson] : []),
+                            dressedPeople: savedState.dressedPeople || [],
+                            sameOutfitForAll: savedState.sameOutfitForAll || false,
+                            sourceGarmentBox: savedState.sourceGarmentBox || null,
+                            sourceGarmentMask: savedState.sourceGarmentMask || null,
+                            garmentCategory: savedState.garmentCategory || 'top',
+                            garments: savedState.garments || [],
+                        },
+                    });
+                    setGenerationOptions({ ...DEFAULT_GENERATION_OPTIONS, ...savedState.generationOptions });
+                    setBackground(savedState.background || { type: 'preserve' });
                     setLanguage(savedState.language || 'ko');
                     if (savedState.appSettings) {
-                        setAppSettings(savedState.appSettings);
+                        // Merge so sessions saved before a setting existed still get its default.
+                        setAppSettings(prev => ({ ...prev, ...savedState.appSettings }));
                     }
                     setShowRestoreNotification(true);
                 } catch (e) {
@@ -77,9 +246,15 @@ const App: React.FC = () => {
                     await Promise.all([clearSession(), clearHistory()]);
                 }
             }
+            // A link to a step opens it if the restored inputs allow, otherwise the furthest step they do.
+            const linkedStep = stepForRoute(initialRouteRef.current);
+            if (linkedStep !== null) {
+                events.push({ type: 'navigated', step: linkedStep, direction: 'forward' });
+            }
+            applyReplacingRoute(events);
         };
         loadInitialData();
-    }, [setLanguage]);
+    }, [setLanguage, applyReplacingRoute]);
 
     useEffect(() => {
         const savableStates = [
@@ -92,142 +267,136 @@ const App: React.FC = () => {
 
         // History is saved separately, so we exclude it from the main session state object.
         const stateToSave = {
-            appState, targetImage, sourceImage,
-            detectedPeople, selectedPerson, sourceGarmentBox, language, appSettings
+            appState, targetImage, sourceImage, targetImageMapping, targetOriginalImage,
+            detectedPeople, selectedPeople, selectedPerson, dressedPeople, sameOutfitForAll, sourceGarmentBox, sourceGarmentMask,
+            garmentCategory, garments, generationOptions, background, language, appSettings
         };
 
         if (savableStates.includes(appState)) {
            saveSession(stateToSave).catch(e => console.error("Failed to save session state", e));
         }
-    }, [appState, targetImage, sourceImage, detectedPeople, selectedPerson, sourceGarmentBox, language, appSettings]);
-
-    const handleReset = useCallback(async () => {
-        setAppState(AppState.IDLE);
-        setTargetImage(null);
-        setSourceImage(null);
-        setDetectedPeople([]);
-        setSelectedPerson(null);
-        setSourceGarmentBox(null);
-        setGeneratedImage(null);
-        setError(null);
-        setLoadingMessage('');
-        setImageUrl('');
-        setHistory([]); // Clear history from react state
-        await Promise.all([clearSession(), clearHistory()]);
+    }, [appState, targetImage, sourceImage, targetImageMapping, targetOriginalImage, detectedPeople, selectedPeople, selectedPerson, dressedPeople, sameOutfitForAll, sourceGarmentBox, sourceGarmentMask, garmentCategory, garments, generationOptions, background, language, appSettings]);
+
+    useEffect(() => {
+        setUsageRecorder(record => {
+            setUsageRecords(prev => [...prev, record]);
+            saveUsageRecord(record).catch(e => console.error("Failed to save usage record", e));
+        });
+        return () => setUsageRecorder(null);
     }, []);
-    
-    const handleBack = useCallback(() => {
-        setError(null);
-        switch (appState) {
-            case AppState.RESULT_READY:
-                setGeneratedImage(null);
-                setAppState(AppState.GARMENT_SELECTED);
-                break;
-            case AppState.GARMENT_SELECTED:
-                setSourceGarmentBox(null);
-                setAppState(AppState.SOURCE_IMAGE_UPLOADED);
-                break;
-            case AppState.SOURCE_IMAGE_UPLOADED:
-                 setSourceImage(null);
-                 setSourceGarmentBox(null);
-                 setAppState(AppState.TARGET_PERSON_SELECTED);
-                 break;
-            case AppState.SOURCE_TYPE_CHOSEN:
-                setAppState(AppState.TARGET_PERSON_SELECTED);
-                break;
-            case AppState.TARGET_PERSON_SELECTED:
-                setSelectedPerson(null);
-                setAppState(AppState.TARGET_PERSON_CHOOSING);
-                break;
-            case AppState.TARGET_PERSON_CHOOSING:
-                setTargetImage(null);
-                setDetectedPeople([]);
-                setAppState(AppState.IDLE);
-                break;
-            case AppState.ERROR:
-                handleReset();
-                break;
+
+    useEffect(() => {
+        setProxyBaseUrl(appSettings.proxyBaseUrl);
+    }, [appSettings.proxyBaseUrl]);
+
+    const resetBackgroundReplacement = useCallback(() => {
+        backgroundControllerRef.current?.abort();
+        setBackgroundTargetId(null);
+        setIsReplacingBackground(false);
+        setBackgroundError(null);
+    }, []);
+
+    const resetBatch = useCallback(() => {
+        batchControllersRef.current.forEach(controller => controller.abort());
+        batchControllersRef.current.clear();
+        setBatchItems([]);
+        setBatchId(null);
+        setIsBatchPaused(true);
+        setBatchUploadErrors([]);
+    }, []);
+
+    const resetRefinement = useCallback(() => {
+        refineControllerRef.current?.abort();
+        setRefineVersionId(null);
+        setIsRefining(false);
+        setRefineError(null);
+    }, []);
+
+    const handleReset = () => applyReplacingRoute([{ type: 'reset' }]);
+
+    // Going back through the browser history lets the popstate handler step back, as the browser's Back button does.
+    const handleBack = () => {
+        if ((routeIndexRef.current ?? 0) > 0) {
+            window.history.back();
+        } else {
+            applyReplacingRoute([{ type: 'back' }]);
         }
-    }, [appState, handleReset]);
+    };
+
+    const describeImageError = (err: unknown): string => {
+        const message = err instanceof Error ? err.message : t('imageProcessingError');
+        if (message === 'FILE_TOO_LARGE') return t('fileTooLargeError', { size: MAX_UPLOAD_MB });
+        if (message === 'IMAGE_TOO_LARGE') return t('normalizedImageTooLargeError');
+        if (message === 'UNSUPPORTED_IMAGE') return t('unsupportedImageError');
+        return message;
+    };
 
-    const handleImageFile = async (file: File, imageSetter: (b64: string) => void, nextState: AppState) => {
-        if (file.size > 5 * 1024 * 1024) {
-            setError(t('fileTooLargeError', { size: 5 }));
-            setAppState(AppState.ERROR);
+    const handleImageFile = async (file: File, onLoaded: (image: NormalizedImage) => void, keepOriginal = false) => {
+        dispatch({ type: 'imageProcessingStarted' });
+        if (file.size > MAX_UPLOAD_BYTES) {
+            dispatch({ type: 'failed', message: t('fileTooLargeError', { size: MAX_UPLOAD_MB }) });
             return;
         }
 
         setLoadingMessage(t('analyzingImageQuality'));
-        setAppState(AppState.GENERATING);
-        setError(null);
 
         try {
-            const base64 = await blobToBase64(file);
-            const qualityResult = await checkImageQuality(base64);
+            const image = await normalizeImage(file, appSettings.maxImageEdge, keepOriginal);
+            const qualityResult = await checkImageQuality(image.dataUrl);
             if (!qualityResult.isOk) {
                 const issues = qualityResult.issues.map(issue => t(`qualityError${issue.charAt(0).toUpperCase() + issue.slice(1).replace('-', '')}`)).join(', ');
                 throw new Error(`${t('imageQualityError')}: ${issues}. ${t('qualityErrorSuggestion')}`);
             }
-            imageSetter(base64);
-            setAppState(nextState);
+            onLoaded(image);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('imageProcessingError');
-            setError(errorMessage);
-            setAppState(AppState.ERROR);
+            dispatch({ type: 'failed', message: describeImageError(err) });
         } finally {
             setLoadingMessage('');
         }
     };
     
-    const processProvidedImage = async (base64Provider: () => Promise<string>) => {
+    const processProvidedImage = async (imageProvider: () => Promise<Blob | string>) => {
         setLoadingMessage(t('analyzingImageQuality'));
-        setAppState(AppState.GENERATING);
-        setError(null);
+        dispatch({ type: 'imageProcessingStarted' });
         try {
-            const base64 = await base64Provider();
-            const qualityResult = await checkImageQuality(base64);
+            const image = await normalizeImage(await imageProvider(), appSettings.maxImageEdge);
+            const qualityResult = await checkImageQuality(image.dataUrl);
             if (!qualityResult.isOk) {
                 const issues = qualityResult.issues.map(issue => t(`qualityError${issue.charAt(0).toUpperCase() + issue.slice(1).replace('-', '')}`)).join(', ');
                 throw new Error(`${t('imageQualityError')}: ${issues}. ${t('qualityErrorSuggestion')}`);
             }
-            setSourceImage(base64);
-            setAppState(AppState.SOURCE_IMAGE_UPLOADED);
+            dispatch({ type: 'sourceImageLoaded', image: image.dataUrl });
         } catch (err) {
-            let errorMessage = err instanceof Error ? err.message : t('imageProcessingError');
-            if (errorMessage === 'FILE_TOO_LARGE') {
-                errorMessage = t('fileTooLargeError', { size: 5 });
-            }
-            setError(errorMessage);
-            setAppState(AppState.ERROR);
+            dispatch({ type: 'failed', message: describeImageError(err) });
         } finally {
             setLoadingMessage('');
         }
     };
 
     const handleTargetImageUpload = (file: File) => {
-        handleImageFile(file, setTargetImage, AppState.ANALYZING_TARGET_IMAGE);
+        handleImageFile(file, image => {
+            dispatch({ type: 'targetImageLoaded', image: image.dataUrl, mapping: image.mapping, original: image.original ?? null });
+        }, true);
     };
 
     const handleSourceImageUpload = (file: File) => {
-        handleImageFile(file, setSourceImage, AppState.SOURCE_IMAGE_UPLOADED);
+        handleImageFile(file, image => dispatch({ type: 'sourceImageLoaded', image: image.dataUrl }));
     };
 
     const handleUrlSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!imageUrl || isFetchingUrl) return;
         setIsFetchingUrl(true);
-        await processProvidedImage(() => urlToBase64(imageUrl, 5 * 1024 * 1024));
+        await processProvidedImage(() => urlToBase64(imageUrl, MAX_UPLOAD_BYTES));
         setIsFetchingUrl(false);
     };
 
     const handlePasteFromClipboard = async () => {
         if (!navigator.clipboard?.read) {
-            setError(t('clipboardApiNotSupportedError'));
-            setAppState(AppState.ERROR);
+            dispatch({ type: 'failed', message: t('clipboardApiNotSupportedError') });
             return;
         }
         setIsPasting(true);
-        setError(null);
         try {
             const items = await navigator.clipboard.read();
             const imageItem = items.find(item => item.types.some(type => type.startsWith('image/')));
@@ -235,104 +404,648 @@ const App: React.FC = () => {
                 throw new Error(t('clipboardEmptyError'));
             }
             const blob = await imageItem.getType(imageItem.types.find(type => type.startsWith('image/'))!);
-             if (blob.size > 5 * 1024 * 1024) {
-                throw new Error(t('fileTooLargeError', { size: 5 }));
+             if (blob.size > MAX_UPLOAD_BYTES) {
+                throw new Error(t('fileTooLargeError', { size: MAX_UPLOAD_MB }));
             }
-            await processProvidedImage(() => blobToBase64(blob));
+            await processProvidedImage(async () => blob);
         } catch (err) {
             const message = err instanceof Error ? err.message : t('imageUploadFailed');
-            setError(message.includes('NotAllowedError') ? t('clipboardPermissionError') : message);
-            setAppState(AppState.ERROR);
+            dispatch({ type: 'failed', message: message.includes('NotAllowedError') ? t('clipboardPermissionError') : message });
         } finally {
             setIsPasting(false);
         }
     };
 
-    const handlePersonSelected = (person: DetectedPerson) => {
-        setSelectedPerson(person);
-        setAppState(AppState.TARGET_PERSON_SELECTED);
+    const handlePeopleSelected = (people: DetectedPerson[]) => {
+        dispatch({ type: 'peopleSelected', people });
     };
 
     const handleSourceTypeSelection = (useSameImage: boolean) => {
-        if (useSameImage) {
-            setSourceImage(targetImage);
-            setAppState(AppState.SOURCE_IMAGE_UPLOADED);
-        } else {
-            setAppState(AppState.SOURCE_TYPE_CHOSEN);
-        }
+        dispatch({ type: 'sourceTypeChosen', useSameImage });
     };
 
     const handleGarmentBoxDrawn = (box: BoundingBox) => {
-        setSourceGarmentBox(box);
-        setAppState(AppState.GARMENT_SELECTED);
+        dispatch({ type: 'garmentBoxDrawn', box });
+    };
+
+    const handleGarmentMaskChange = (mask: string | null, bounds: BoundingBox | null) => {
+        dispatch({ type: 'garmentMaskChanged', mask, bounds });
+    };
+
+    const handleDetectedGarmentSelected = (garment: DetectedGarment) => {
+        dispatch({ type: 'detectedGarmentSelected', garment });
+    };
+
+    const handleAddAnotherGarment = () => {
+        dispatch({ type: 'garmentAdded', id: Date.now().toString() });
+    };
+
+    const nextPersonToDress = getNextPersonToDress(workflow);
+
+    const handleDressNextPerson = () => {
+        dispatch({ type: 'nextPersonStarted', id: Date.now().toString() });
+    };
+
+    const updateBatchItem = (id: string, changes: Partial<BatchItem>) => {
+        setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
     };
 
-    const handleGenerateClick = () => {
-        if (targetImage && selectedPerson && sourceImage && sourceGarmentBox) {
-            setAppState(AppState.GENERATING);
+    // Each image is added right away and its garment is looked for in the background; when nothing
+    // is found the user draws the box. Images that cannot be read are listed instead of added.
+    const handleAddBatchFiles = async (files: File[]) => {
+        setBatchUploadErrors([]);
+        const provider = getTryOnProvider(appSettings.provider);
+        const prompt = promptTemplates[language].garmentDetection;
+        await Promise.all(files.map(async (file, index) => {
+            if (file.size > MAX_UPLOAD_BYTES) {
+                setBatchUploadErrors(prev => [...prev, `${file.name}: ${t('fileTooLargeError', { size: MAX_UPLOAD_MB })}`]);
+                return;
+            }
+            let image: NormalizedImage;
+            try {
+                image = await normalizeImage(file, appSettings.maxImageEdge);
+            } catch (err) {
+                setBatchUploadErrors(prev => [...prev, `${file.name}: ${describeImageError(err)}`]);
+                return;
+            }
+            const id = `${Date.now()}-${index}`;
+            const controller = new AbortController();
+            batchControllersRef.current.set(id, controller);
+            setBatchItems(prev => [...prev, { id, sourceImage: image.dataUrl, box: null, category: batchCategory, status: 'detecting' }]);
+            try {
+                const key = await detectionCacheKey('garments', appSettings.provider, appSettings.detectionModel, image.dataUrl, prompt);
+                const found = await cachedDetection(key, () =>
+                    provider.detectGarmentsInImage(image.dataUrl, appSettings.detectionModel, prompt, controller.signal)
+                );
+                if (controller.signal.aborted) return;
+                const garment = pickBatchGarment(found, batchCategory);
+                updateBatchItem(id, garment ? { box: garment.box, status: 'ready' } : { status: 'needsBox' });
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                console.warn("Garment detection failed:", err);
+                updateBatchItem(id, { status: 'needsBox' });
+            } finally {
+                batchControllersRef.current.delete(id);
+            }
+        }));
+    };
+
+    const handleBatchCategoryChange = (category: GarmentCategory) => {
+        setBatchCategory(category);
+        // Items that have not run yet follow the batch's category.
+        setBatchItems(prev => prev.map(item => item.status === 'running' || item.status === 'done' ? item : { ...item, category }));
+    };
+
+    const handleRemoveBatchItem = (id: string) => {
+        batchControllersRef.current.get(id)?.abort();
+        batchControllersRef.current.delete(id);
+        setBatchItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const handleSetBatchItemBox = (id: string, box: BoundingBox) => {
+        updateBatchItem(id, { box, status: 'ready', error: undefined });
+    };
+
+    const handleStartBatch = (ignoreLimits = false) => {
+        if (!ignoreLimits && appSettings.provider !== 'mock') {
+            const queued = batchItems.filter(item => item.status === 'ready').length;
+            const warnings = checkSoftLimits(usageRecords, appSettings, queued);
+            if (warnings.length > 0) {
+                setLimitWarnings(warnings);
+                return;
+            }
+        }
+        setLimitWarnings(null);
+        setBatchId(prev => prev ?? new Date().toISOString());
+        setIsBatchPaused(false);
+    };
+
+    const handleRetryFailedBatchItems = () => {
+        setBatchItems(prev => prev.map(item => item.status === 'failed' ? { ...item, status: 'ready', error: undefined } : item));
+    };
+
+    const runBatchItem = async (item: BatchItem, runBatchId: string) => {
+        if (!targetImage || !selectedPerson || !item.box) return;
+        const controller = new AbortController();
+        batchControllersRef.current.set(item.id, controller);
+        const request: TryOnRequest = {
+            targetImage,
+            personBox: selectedPerson.box,
+            garments: [{ id: item.id, sourceImage: item.sourceImage, box: item.box, category: item.category }],
+            currentClothing: selectedPerson.clothing,
+            language,
+            options: generationOptions,
+            background,
+            promptTemplates: promptTemplates[language],
+        };
+        try {
+            const provider = getTryOnProvider(appSettings.provider);
+            const image = await provider.generateVirtualTryOnImage(request, appSettings.generationModel, controller.signal);
+            if (controller.signal.aborted) return;
+            updateBatchItem(item.id, { status: 'done', result: image });
+            // Items finish concurrently, so the timestamp alone may repeat; the item id keeps them apart.
+            const historyItem: HistoryItem = { id: `${new Date().toISOString()}-${item.id}`, generatedImage: image, isFavorite: false, batchId: runBatchId };
+            setHistory(prev => [historyItem, ...prev]);
+            await saveHistoryItem(historyItem);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Batch item failed:", err);
+            updateBatchItem(item.id, { status: 'failed', error: t(toFitUpError(err, 'generationFailed').messageKey) });
+        } finally {
+            batchControllersRef.current.delete(item.id);
+        }
+    };
+
+    // Starts queued items whenever a slot frees up. Pausing only stops new starts; running items finish.
+    useEffect(() => {
+        if (appState !== AppState.BATCH || !batchId || isBatchPaused) return;
+        const next = nextBatchItems(batchItems, batchConcurrency);
+        if (next.length === 0) return;
+        const startedIds = new Set(next.map(item => item.id));
+        setBatchItems(prev => prev.map(item => startedIds.has(item.id) ? { ...item, status: 'running', error: undefined } : item));
+        next.forEach(item => runBatchItem(item, batchId));
+        // runBatchItem reads the current inputs when it is called; the queue only advances on these.
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [appState, batchId, isBatchPaused, batchItems, batchConcurrency]);
+
+    const handleRemoveGarment = (id: string) => {
+        dispatch({ type: 'garmentRemoved', id });
+    };
+
+    // Everyone to dress with their outfit, the person being edited first, or null while their outfit
+    // is incomplete. Selected people who were not given an outfit are left out and stay unchanged.
+    const buildOutfits = useCallback((): PersonOutfit[] | null => {
+        if (!selectedPerson || !sourceImage || !sourceGarmentBox) return null;
+        const outfit = [
+            ...garments,
+            { id: 'current', sourceImage, box: sourceGarmentBox, category: garmentCategory, mask: sourceGarmentMask ?? undefined },
+        ];
+        if (sameOutfitForAll) {
+            const others = selectedPeople.filter(person => person.id !== selectedPerson.id);
+            return [selectedPerson, ...others].map(person => ({ person, garments: outfit }));
+        }
+        return [{ person: selectedPerson, garments: outfit }, ...dressedPeople.filter(dressed => dressed.person.id !== selectedPerson.id)];
+    }, [selectedPeople, selectedPerson, dressedPeople, sameOutfitForAll, sourceImage, sourceGarmentBox, sourceGarmentMask, garmentCategory, garments]);
+
+    // One try-on request per person, run as a chain on the previous step's result; null while incomplete.
+    const buildTryOnRequests = useCallback((): TryOnRequest[] | null => {
+        const outfits = buildOutfits();
+        if (!targetImage || !outfits) return null;
+        return outfits.map((outfit, index) => ({
+            targetImage,
+            personBox: outfit.person.box,
+            garments: outfit.garments,
+            currentClothing: outfit.person.clothing,
+            language,
+            options: generationOptions,
+            // The first step already puts everyone in the new scene; later steps keep it.
+            background: index === 0 ? background : { type: 'preserve' },
+            promptTemplates: promptTemplates[language],
+        }));
+    }, [targetImage, buildOutfits, generationOptions, background, language, promptTemplates]);
+
+    // Crop-and-stitch only applies while the background is kept: a new background changes the whole
+    // photo, which the model has to see, and would throw away the full resolution stitching keeps.
+    const usesCropAndStitch = (request: TryOnRequest) => appSettings.cropAndStitch && (request.background?.type ?? 'preserve') === 'preserve';
+
+    // Any change to the outfit makes an offered cached result, a pending lookup or a limit warning stale.
+    useEffect(() => {
+        cacheLookupControllerRef.current?.abort();
+        setCachedGeneration(null);
+        setLimitWarnings(null);
+    }, [buildTryOnRequests, appSettings.provider, appSettings.generationModel, appSettings.cropAndStitch]);
+
+    const startGeneration = (ignoreLimits = false) => {
+        // The mock provider is free, so its runs are never held back by the soft limits.
+        if (!ignoreLimits && appSettings.provider !== 'mock') {
+            // Each candidate of a group run is a chain of one generation per person.
+            const people = buildTryOnRequests()?.length ?? 1;
+            const warnings = checkSoftLimits(usageRecords, appSettings, appSettings.candidateCount * people);
+            if (warnings.length > 0) {
+                setLimitWarnings(warnings);
+                return;
+            }
         }
+        setLimitWarnings(null);
+        dispatch({ type: 'generationStarted' });
+    };
+
+    const handleGenerateClick = async () => {
+        const requests = buildTryOnRequests();
+        if (!requests) return;
+        const [request, ...followUps] = requests;
+        cacheLookupControllerRef.current?.abort();
+        const controller = new AbortController();
+        cacheLookupControllerRef.current = controller;
+        // The lookup only applies while its inputs are current and the user is still on this step.
+        const step = workflowRef.current.step;
+        const isStale = () => controller.signal.aborted || workflowRef.current.step !== step;
+
+        const key = await generationCacheKey(appSettings.provider, appSettings.generationModel, request, usesCropAndStitch(request), followUps);
+        if (isStale()) return;
+        const cached = await readCachedGeneration(key);
+        if (isStale()) return;
+        if (cached) {
+            // Let the user choose between the earlier result and a new generation.
+            setCachedGeneration(cached);
+            return;
+        }
+        startGeneration();
+    };
+
+    const handleReuseCachedGeneration = () => {
+        if (!cachedGeneration) return;
+        setCandidates(toCandidates(cachedGeneration));
+        setCachedGeneration(null);
+        dispatch({ type: 'resultsReady' });
+    };
+
+    const handleGenerateAnyway = () => {
+        setCachedGeneration(null);
+        startGeneration();
     };
     
+    // Transient errors were already retried by the service; the user may still retry by hand.
+    const handleStepFailure = (err: unknown, fallback: 'detectionFailed' | 'generationFailed') => {
+        const fitUpError = toFitUpError(err, fallback);
+        dispatch({ type: 'failed', message: t(fitUpError.messageKey), detail: fitUpError.providerDetail });
+    };
+
+    const handleRetryStep = () => {
+        dispatch({ type: 'retry' });
+    };
+
+    // Each run owns an AbortController in stepControllerRef. Cancel, Start Over or a newer run aborts it,
+    // and an aborted run never touches state, so late responses cannot overwrite newer state.
+    const startStepRun = () => {
+        stepControllerRef.current?.abort();
+        const controller = new AbortController();
+        stepControllerRef.current = controller;
+        return controller;
+    };
+
+    const analyzeTargetImage = async () => {
+        if (!targetImage) return;
+        const controller = startStepRun();
+        setLoadingMessage(t('detectingPeople'));
+        try {
+            const provider = getTryOnProvider(appSettings.provider);
+            const prompt = promptTemplates[language].detection;
+            const key = await detectionCacheKey('people', appSettings.provider, appSettings.detectionModel, targetImage, prompt);
+            const people = await cachedDetection(key, () =>
+                provider.detectPeopleInImage(targetImage, appSettings.detectionModel, prompt, controller.signal)
+            );
+            if (controller.signal.aborted) return;
+            dispatch({ type: 'peopleDetected', people });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Person detection failed:", err);
+            handleStepFailure(err, 'detectionFailed');
+        } finally {
+            if (!controller.signal.aborted) {
+                setLoadingMessage('');
+            }
+        }
+    };
+
+    // Garment detection runs in the background once per source image and never blocks the flow:
+    // on failure the editor simply offers no candidates and the user draws the box by hand.
     useEffect(() => {
-        const analyzeTargetImage = async () => {
-            if (appState === AppState.ANALYZING_TARGET_IMAGE && targetImage) {
-                setLoadingMessage(t('detectingPeople'));
-                try {
-                    const people = await detectPeopleInImage(targetImage, appSettings.detectionModel);
-                    if (people.length > 0) {
-                        setDetectedPeople(people);
-                        setAppState(AppState.TARGET_PERSON_CHOOSING);
-                    } else {
-                        setError(t('noPeopleDetectedError'));
-                        setAppState(AppState.ERROR);
-                    }
-                } catch (err) {
-                    console.error("Person detection failed:", err);
-                    const errorMessageKey = err instanceof Error ? err.message : 'detectionFailedError';
-                    setError(t(errorMessageKey));
-                    setAppState(AppState.ERROR);
-                } finally {
-                    setLoadingMessage('');
-                }
+        if (!sourceImage || garmentDetection?.sourceImage === sourceImage) return;
+        const controller = new AbortController();
+
+        const detectGarments = async () => {
+            try {
+                const provider = getTryOnProvider(appSettings.provider);
+                const prompt = promptTemplates[language].garmentDetection;
+                const key = await detectionCacheKey('garments', appSettings.provider, appSettings.detectionModel, sourceImage, prompt);
+                const found = await cachedDetection(key, () =>
+                    provider.detectGarmentsInImage(sourceImage, appSettings.detectionModel, prompt, controller.signal)
+                );
+                if (controller.signal.aborted) return;
+                setGarmentDetection({ sourceImage, garments: found });
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                console.warn("Garment detection failed:", err);
+                setGarmentDetection({ sourceImage, garments: [] });
             }
         };
-        analyzeTargetImage();
-    }, [appState, targetImage, t, appSettings.detectionModel]);
+        detectGarments();
+        return () => controller.abort();
+    }, [sourceImage, garmentDetection, language, promptTemplates, appSettings.provider, appSettings.detectionModel]);
 
-    useEffect(() => {
-        const performVirtualTryOn = async () => {
-            if (appState === AppState.GENERATING && targetImage && selectedPerson && sourceImage && sourceGarmentBox) {
-                setLoadingMessage(t('generatingImage'));
-                setGeneratedImage(null);
-                setError(null);
-                try {
-                    const resultImage = await generateVirtualTryOnImage(
-                        targetImage,
-                        selectedPerson.box,
-                        sourceImage,
-                        sourceGarmentBox,
-                        language,
-                        appSettings.generationModel
-                    );
-                    setGeneratedImage(resultImage);
-                    const newHistoryItem: HistoryItem = { id: new Date().toISOString(), generatedImage: resultImage };
-                    
-                    await saveHistoryItem(newHistoryItem);
-                    setHistory(prev => [newHistoryItem, ...prev]);
-
-                    setAppState(AppState.RESULT_READY);
-                } catch (err) {
-                    console.error("Virtual try-on failed:", err);
-                    const errorMessageKey = err instanceof Error ? err.message : 'generationFailedError';
-                    setError(t(errorMessageKey));
-                    setAppState(AppState.ERROR);
-                } finally {
-                    setLoadingMessage('');
-                }
+    const performVirtualTryOn = async () => {
+        const requests = buildTryOnRequests();
+        if (!requests) return;
+        const [request, ...followUps] = requests;
+        const controller = startStepRun();
+        const { candidateCount, candidateMode } = appSettings;
+        setLoadingMessage(candidateCount > 1
+            ? t('generatingCandidates', { completed: 0, total: candidateCount })
+            : followUps.length > 0 ? t('generatingGroupImage', { count: requests.length }) : t('generatingImage'));
+        setCandidates([]);
+        try {
+            const provider = getTryOnProvider(appSettings.provider);
+            // In crop-and-stitch mode the model only sees a padded crop around the people,
+            // cut from the full-resolution photo, and its results are blended back into it.
+            const fullImage = targetOriginalImage ?? request.targetImage;
+            const crop = usesCropAndStitch(request)
+                ? await cropAroundPerson(fullImage, unionBox(requests.map(step => step.personBox)), appSettings.maxImageEdge)
+                : null;
+            if (controller.signal.aborted) return;
+            const [modelRequest, ...modelFollowUps] = crop
+                ? requests.map(step => ({
+                    ...step,
+                    targetImage: crop.image,
+                    personBox: toCropBox(step.personBox, crop.region),
+                }))
+                : requests;
+            const generatedImages = await generateCandidates(
+                withFollowUpSteps(provider, modelFollowUps),
+                modelRequest,
+                appSettings.generationModel,
+                candidateCount,
+                candidateMode,
+                completed => {
+                    if (candidateCount > 1 && !controller.signal.aborted) {
+                        setLoadingMessage(t('generatingCandidates', { completed, total: candidateCount }));
+                    }
+                },
+                controller.signal
+            );
+            if (controller.signal.aborted) return;
+            let verifications: (VerificationResult | undefined)[] = [];
+            if (appSettings.verifyResults) {
+                setLoadingMessage(t('verifyingResults'));
+                verifications = await verifyCandidates(
+                    provider,
+                    [modelRequest, ...modelFollowUps],
+                    generatedImages,
+                    appSettings.detectionModel,
+                    promptTemplates[language].verification,
+                    controller.signal
+                );
+                if (controller.signal.aborted) return;
             }
+            let images = generatedImages;
+            if (crop) {
+                setLoadingMessage(t('stitchingResults'));
+                images = await Promise.all(generatedImages.map(image => stitchIntoOriginal(fullImage, image, crop.region)));
+                if (controller.signal.aborted) return;
+            }
+            const generation: CachedGeneration = { images, verifications };
+            const key = await generationCacheKey(appSettings.provider, appSettings.generationModel, request, usesCropAndStitch(request), followUps);
+            await writeCachedGeneration(key, generation);
+            if (controller.signal.aborted) return;
+            setCandidates(toCandidates(generation));
+            dispatch({ type: 'resultsReady' });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Virtual try-on failed:", err);
+            handleStepFailure(err, 'generationFailed');
+        } finally {
+            if (!controller.signal.aborted) {
+                setLoadingMessage('');
+            }
+        }
+    };
+
+    const runCommand = (command: WorkflowCommand) => {
+        switch (command.type) {
+            case 'detectPeople':
+                analyzeTargetImage();
+                break;
+            case 'generate':
+                performVirtualTryOn();
+                break;
+            case 'abortStep':
+                stepControllerRef.current?.abort();
+                stepControllerRef.current = null;
+                setLoadingMessage('');
+                break;
+            case 'clearResults':
+                resetBackgroundReplacement();
+                resetRefinement();
+                setCandidates([]);
+                break;
+            case 'clearBatch':
+                resetBatch();
+                break;
+            case 'clearInputs':
+                setGarmentDetection(null);
+                setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
+                setBackground({ type: 'preserve' });
+                setImageUrl('');
+                break;
+            case 'clearStorage':
+                setHistory([]); // Clear history from react state
+                Promise.all([clearSession(), clearHistory()]).catch(e => console.error("Failed to clear saved data", e));
+                break;
+        }
+    };
+
+    // Commands asked for by workflow transitions run once, after the render that applied them,
+    // so they see the state the transition produced.
+    useEffect(() => {
+        if (commands.length === 0) return;
+        dispatch({ type: 'commandsTaken' });
+        commands.forEach(runCommand);
+        // runCommand reads the current state when it is called; only new commands should run it.
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [commands]);
+
+    const handleCancel = () => {
+        applyReplacingRoute([{ type: 'cancel' }]);
+    };
+
+    const keepCandidate = async (candidate: ResultCandidate) => {
+        const historyItem: HistoryItem = {
+            id: candidate.id,
+            generatedImage: candidate.image,
+            isFavorite: candidate.isFavorite,
+            verification: candidate.verification,
         };
-        performVirtualTryOn();
-    }, [appState, targetImage, selectedPerson, sourceImage, sourceGarmentBox, language, t, appSettings.generationModel]);
+        await saveHistoryItem(historyItem);
+        setHistory(prev => [historyItem, ...prev.filter(item => item.id !== historyItem.id)]);
+    };
+
+    const handleKeepCandidate = async (id: string) => {
+        const candidate = candidates.find(c => c.id === id);
+        if (!candidate) return;
+        setCandidates(prev => prev.map(c => c.id === id ? { ...c, status: 'kept' } : c));
+        await keepCandidate(candidate);
+    };
+
+    const handleDiscardCandidate = async (id: string) => {
+        const candidate = candidates.find(c => c.id === id);
+        if (!candidate) return;
+        setCandidates(prev => prev.map(c => c.id === id ? { ...c, status: 'discarded', isFavorite: false } : c));
+        if (candidate.status === 'kept') {
+            // Refined versions go with the result they were made from.
+            const removed = history.filter(item => item.id === id || item.rootId === id);
+            if (removed.some(item => item.id === refineVersionId)) {
+                resetRefinement();
+            }
+            setHistory(prev => prev.filter(item => item.id !== id && item.rootId !== id));
+            await Promise.all(removed.map(item => deleteHistoryItem(item.id)));
+        }
+    };
+
+    const handleRefineCandidate = async (id: string) => {
+        const candidate = candidates.find(c => c.id === id);
+        if (!candidate) return;
+        resetBackgroundReplacement();
+        setRefineError(null);
+        setRefineVersionId(id);
+        // Versions are stored as children of the result in history, so the result itself has to be kept.
+        if (candidate.status !== 'kept') {
+            await handleKeepCandidate(id);
+        }
+    };
+
+    const handleRefine = async (instruction: string) => {
+        if (!refineVersionId) return;
+        const chain = getVersionChain(history, refineVersionId);
+        if (chain.length === 0) return;
+        const [root, ...edits] = chain;
+        const parent = chain[chain.length - 1];
+
+        refineControllerRef.current?.abort();
+        const controller = new AbortController();
+        refineControllerRef.current = controller;
+        setIsRefining(true);
+        setRefineError(null);
+        try {
+            const provider = getTryOnProvider(appSettings.provider);
+            const image = await provider.refineTryOnImage(
+                {
+                    baseImage: root.generatedImage,
+                    turns: edits.map(edit => ({ instruction: edit.instruction ?? '', image: edit.generatedImage })),
+                    instruction,
+                    language,
+                    template: promptTemplates[language].refine,
+                },
+                appSettings.generationModel,
+                controller.signal
+            );
+            if (controller.signal.aborted) return;
+            const version: HistoryItem = {
+                id: new Date().toISOString(),
+                generatedImage: image,
+                parentId: parent.id,
+                rootId: root.id,
+                instruction,
+            };
+            await saveHistoryItem(version);
+            setHistory(prev => [version, ...prev]);
+            setRefineVersionId(version.id);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Refinement failed:", err);
+            setRefineError(t(toFitUpError(err, 'generationFailed').messageKey));
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsRefining(false);
+            }
+        }
+    };
+
+    const handleToggleFavoriteCandidate = async (id: string) => {
+        const candidate = candidates.find(c => c.id === id);
+        if (!candidate) return;
+        // Favouriting a candidate also keeps it.
+        const updated: ResultCandidate = { ...candidate, isFavorite: !candidate.isFavorite, status: 'kept' };
+        setCandidates(prev => prev.map(c => c.id === id ? updated : c));
+        await keepCandidate(updated);
+    };
+
+    const handleApplyBackground = async () => {
+        const candidate = candidates.find(c => c.id === backgroundTargetId);
+        if (!candidate) return;
+        backgroundControllerRef.current?.abort();
+        const controller = new AbortController();
+        backgroundControllerRef.current = controller;
+        setIsReplacingBackground(true);
+        setBackgroundError(null);
+        try {
+            const provider = getTryOnProvider(appSettings.provider);
+            const image = await provider.replaceBackground(
+                candidate.image,
+                replacementBackground,
+                language,
+                appSettings.generationModel,
+                promptTemplates[language].backgroundReplace,
+                controller.signal
+            );
+            if (controller.signal.aborted) return;
+            // The edited image joins the results as a new candidate; the original stays untouched.
+            setCandidates(prev => [...prev, { id: new Date().toISOString(), image, status: 'pending', isFavorite: false }]);
+            setBackgroundTargetId(null);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Background replacement failed:", err);
+            setBackgroundError(t(toFitUpError(err, 'generationFailed').messageKey));
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsReplacingBackground(false);
+            }
+        }
+    };
+
+    useEffect(() => {
+        if (!isSettingsOpen) return;
+        getCacheStats()
+            .then(setCacheStats)
+            .catch(e => console.error("Failed to read cache size", e));
+    }, [isSettingsOpen]);
+
+    const handleClearCache = async () => {
+        await clearCache();
+        setCacheStats({ entries: 0, bytes: 0 });
+    };
+
+    const handleClearUsage = async () => {
+        setUsageRecords([]);
+        await clearUsageRecords();
+    };
+
+    // Errors from the API key actions are shown in the settings panel, so they are localized here.
+    const describeApiKeyError = (err: unknown): Error => {
+        if (err instanceof Error && err.message === 'WRONG_PASSPHRASE') return new Error(t('wrongPassphraseError'));
+        return new Error(t(toFitUpError(err, 'invalidApiKey').messageKey));
+    };
+
+    const handleSaveApiKey = async (apiKey: string, passphrase: string) => {
+        try {
+            await saveApiKey(apiKey, passphrase, appSettings.detectionModel);
+        } catch (err) {
+            throw describeApiKeyError(err);
+        }
+        setApiKeyStatus('unlocked');
+        setIsApiKeySet(isApiKeyAvailable());
+    };
+
+    const handleUnlockApiKey = async (passphrase: string) => {
+        try {
+            await unlockApiKey(passphrase);
+        } catch (err) {
+            throw describeApiKeyError(err);
+        }
+        setApiKeyStatus('unlocked');
+        setIsApiKeySet(isApiKeyAvailable());
+    };
+
+    const handleLockApiKey = () => {
+        lockApiKey();
+        setApiKeyStatus('locked');
+        setIsApiKeySet(isApiKeyAvailable());
+    };
+
+    const handleRemoveApiKey = async () => {
+        await removeApiKey();
+        setApiKeyStatus('none');
+        setIsApiKeySet(isApiKeyAvailable());
+    };
 
     const handleClearHistory = async () => {
         setHistory([]);
@@ -347,9 +1060,63 @@ const App: React.FC = () => {
         setAppSettings(settings);
     };
 
+    const handleSavePromptTemplates = async (templates: Record<Language, PromptTemplates>) => {
+        setPromptTemplates(templates);
+        // Languages left at the built-in defaults are not stored, so future default changes reach them.
+        await Promise.all((Object.keys(templates) as Language[]).map(lang => {
+            const isDefault = (Object.keys(templates[lang]) as (keyof PromptTemplates)[])
+                .every(kind => templates[lang][kind] === DEFAULT_PROMPT_TEMPLATES[lang][kind]);
+            return isDefault ? deletePromptTemplates(lang) : savePromptTemplates(lang, templates[lang]);
+        }));
+    };
+
+    // Shown instead of starting when today's usage would cross a soft limit.
+    const renderLimitWarnings = (onProceed: () => void) => limitWarnings && (
+        <div className="w-full bg-yellow-900/40 border border-yellow-600 rounded-lg p-4 flex flex-col items-center gap-3 text-center" role="alert">
+            <p className="font-semibold text-yellow-200">{t('softLimitTitle')}</p>
+            {limitWarnings.map(warning => (
+                <p key={warning.kind} className="text-sm text-yellow-100">
+                    {warning.kind === 'generations'
+                        ? t('softLimitGenerations', { used: warning.used, limit: warning.limit })
+                        : t('softLimitCost', { used: warning.used.toFixed(2), limit: warning.limit.toFixed(2) })}
+                </p>
+            ))}
+            <div className="flex flex-col sm:flex-row gap-3">
+                <button onClick={onProceed} className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                    {t('generateAnywayButton')}
+                </button>
+                <button onClick={() => setLimitWarnings(null)} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                    {t('cancelButton')}
+                </button>
+            </div>
+        </div>
+    );
+
+    // Who is dressed in what while a group's outfits are being chosen, with every selected person listed.
+    const renderGroupOutfits = () => (
+        <GroupOutfitPanel
+            outfits={selectedPeople.map(person => ({
+                person,
+                garments: person.id === selectedPerson?.id
+                    ? garments
+                    : dressedPeople.find(outfit => outfit.person.id === person.id)?.garments ?? [],
+            }))}
+            activePersonId={selectedPerson?.id}
+            sameOutfitForAll={sameOutfitForAll}
+            onSameOutfitForAllChange={value => dispatch({ type: 'sameOutfitForAllChanged', sameOutfitForAll: value })}
+        />
+    );
+
     const renderContent = () => {
-        if (appState === AppState.GENERATING || loadingMessage) {
-            return <LoadingSpinner message={loadingMessage || t('generatingImage')} />;
+        const isBusy = appState === AppState.GENERATING || appState === AppState.ANALYZING_TARGET_IMAGE || appState === AppState.PROCESSING_IMAGE;
+        if (isBusy || loadingMessage) {
+            return (
+                <LoadingSpinner
+                    message={loadingMessage || t('generatingImage')}
+                    onCancel={canCancel(appState) ? handleCancel : undefined}
+                    cancelLabel={t('cancelButton')}
+                />
+            );
         }
 
         switch (appState) {
@@ -358,17 +1125,27 @@ const App: React.FC = () => {
 
             case AppState.TARGET_PERSON_CHOOSING:
                 if (!targetImage) return null;
-                return <PersonSelector imageSrc={targetImage} people={detectedPeople} onPersonSelected={handlePersonSelected} />;
+                return <PersonSelector imageSrc={targetImage} people={detectedPeople} initialSelection={selectedPeople} onPeopleSelected={handlePeopleSelected} onPeopleChange={people => dispatch({ type: 'peopleChanged', people })} />;
             
             case AppState.TARGET_PERSON_SELECTED:
                 return (
                     <div className="flex flex-col items-center gap-4">
                         <h2 className="text-2xl font-bold text-center text-indigo-300">{t('step3Title')}</h2>
+                        {selectedPeople.length > 1 && selectedPerson && (
+                            <p className="text-indigo-200 text-center font-semibold">{t('dressingPersonTitle', { person: selectedPerson.id })}</p>
+                        )}
                         <p className="text-gray-400 text-center">{t('step3Description')}</p>
                         <div className="flex gap-4 mt-4">
                             <button onClick={() => handleSourceTypeSelection(true)} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-colors duration-300">{t('useSameImageButton')}</button>
                             <button onClick={() => handleSourceTypeSelection(false)} className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold transition-colors duration-300">{t('uploadNewImageButton')}</button>
                         </div>
+                        <button onClick={() => dispatch({ type: 'batchOpened' })} className="text-sm text-indigo-300 hover:text-indigo-200 underline">
+                            {t('batchModeButton')}
+                        </button>
+                        <div className="w-full max-w-2xl mt-4 flex flex-col gap-4">
+                            <GarmentList garments={garments} onRemove={handleRemoveGarment} />
+                            {selectedPeople.length > 1 && renderGroupOutfits()}
+                        </div>
                     </div>
                 );
 
@@ -417,6 +1194,9 @@ const App: React.FC = () => {
             case AppState.GARMENT_SELECTED:
                  if (!sourceImage) return null;
                  const isSameImage = targetImage === sourceImage;
+                 const compatibilityIssues = selectedPerson && sourceGarmentBox
+                     ? findCompatibilityIssues(selectedPerson, [...garments, { id: 'current', category: garmentCategory }])
+                     : [];
                  return (
                     <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-6">
                         <ImageEditor 
@@ -426,34 +1206,171 @@ const App: React.FC = () => {
                             instruction={t('step5Instruction')} 
                             existingBox={isSameImage ? selectedPerson?.box : null}
                             garmentBox={sourceGarmentBox}
+                            detectedGarments={garmentDetection?.sourceImage === sourceImage ? garmentDetection.garments : []}
+                            isDetectingGarments={garmentDetection?.sourceImage !== sourceImage}
+                            onGarmentSelected={handleDetectedGarmentSelected}
+                            garmentMask={sourceGarmentMask}
+                            onMaskChange={handleGarmentMaskChange}
                         />
+                        <GarmentCategoryPicker value={garmentCategory} onChange={category => dispatch({ type: 'garmentCategoryChanged', category })} />
+                        <GarmentList garments={garments} onRemove={handleRemoveGarment} />
+                        {selectedPeople.length > 1 && renderGroupOutfits()}
                         {appState === AppState.GARMENT_SELECTED && (
-                             <button 
-                                onClick={handleGenerateClick}
-                                className="px-8 py-4 bg-green-600 hover:bg-green-700 rounded-lg text-white font-bold text-lg transition-colors duration-300 shadow-lg animate-pulse"
-                            >
-                                {t('generateButton')}
-                            </button>
+                            <>
+                                <GenerationOptionsPanel options={generationOptions} onChange={setGenerationOptions} />
+                                <div className="w-full bg-gray-800 rounded-lg p-4">
+                                    <BackgroundPicker value={background} onChange={setBackground} maxImageEdge={appSettings.maxImageEdge} />
+                                </div>
+                            </>
+                        )}
+                        {appState === AppState.GARMENT_SELECTED && compatibilityIssues.length > 0 && (
+                            <div className="w-full bg-yellow-900/40 border border-yellow-600 rounded-lg p-4 text-sm text-yellow-200" role="alert">
+                                <p className="font-semibold mb-1">{t('compatibilityWarningTitle')}</p>
+                                <ul className="list-disc list-inside">
+                                    {compatibilityIssues.map(issue => (
+                                        <li key={`${issue.garmentId}-${issue.region}`}>
+                                            {t('compatibilityWarning', {
+                                                garment: t(`garmentCategory${issue.category.charAt(0).toUpperCase() + issue.category.slice(1)}`),
+                                                region: t(`bodyRegion${issue.region.charAt(0).toUpperCase() + issue.region.slice(1)}`),
+                                            })}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {appState === AppState.GARMENT_SELECTED && cachedGeneration && (
+                            <div className="w-full bg-indigo-900/40 border border-indigo-600 rounded-lg p-4 flex flex-col items-center gap-3 text-center" role="alert">
+                                <p className="text-sm text-indigo-100">{t('cachedGenerationFound')}</p>
+                                <div className="flex flex-col sm:flex-row gap-3">
+                                    <button onClick={handleReuseCachedGeneration} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                                        {t('reuseCachedResultButton')}
+                                    </button>
+                                    <button onClick={handleGenerateAnyway} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                                        {t('generateNewButton')}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        {appState === AppState.GARMENT_SELECTED && limitWarnings && renderLimitWarnings(() => startGeneration(true))}
+                        {appState === AppState.GARMENT_SELECTED && !cachedGeneration && !limitWarnings && (
+                            <div className="flex flex-col sm:flex-row items-center gap-4">
+                                <button
+                                    onClick={handleAddAnotherGarment}
+                                    className="px-6 py-4 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold transition-colors duration-300"
+                                >
+                                    {t('addAnotherGarmentButton')}
+                                </button>
+                                {nextPersonToDress && (
+                                    <button
+                                        onClick={handleDressNextPerson}
+                                        className="px-6 py-4 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold transition-colors duration-300"
+                                    >
+                                        {t('dressNextPersonButton', { person: nextPersonToDress.id })}
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={handleGenerateClick}
+                                    className="px-8 py-4 bg-green-600 hover:bg-green-700 rounded-lg text-white font-bold text-lg transition-colors duration-300 shadow-lg animate-pulse"
+                                >
+                                    {t('generateButton')}
+                                </button>
+                            </div>
                         )}
                     </div>
                 );
             
-            case AppState.RESULT_READY:
-                if (!generatedImage) return null;
+            case AppState.RESULT_READY: {
+                if (candidates.length === 0) return null;
+                const resultOutfits = buildOutfits() ?? [];
+                const isGroupResult = resultOutfits.length > 1;
                 return (
-                    <div className="flex flex-col items-center gap-6">
+                    <div className="w-full max-w-4xl flex flex-col items-center gap-6">
                         <h2 className="text-3xl font-bold text-center text-green-400">{t('resultTitle')}</h2>
-                        <img src={generatedImage} alt="Virtual try-on result" className="rounded-lg shadow-2xl max-w-full lg:max-w-2xl" />
-                         <a href={generatedImage} download={`virtual-try-on-${new Date().toISOString()}.png`} className="inline-block mt-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-colors duration-300">{t('downloadButton')}</a>
+                        <CandidateGrid
+                            candidates={candidates}
+                            onKeep={handleKeepCandidate}
+                            onDiscard={handleDiscardCandidate}
+                            onToggleFavorite={handleToggleFavoriteCandidate}
+                            onChangeBackground={id => { resetRefinement(); setBackgroundTargetId(id); setBackgroundError(null); }}
+                            onRefine={handleRefineCandidate}
+                            personMarkers={isGroupResult ? resultOutfits.map(outfit => ({ id: outfit.person.id, box: outfit.person.box })) : undefined}
+                        />
+                        {isGroupResult && <GroupOutfitPanel outfits={resultOutfits} />}
+                        {refineVersionId && (() => {
+                            const rootId = getVersionChain(history, refineVersionId)[0]?.id ?? refineVersionId;
+                            return (
+                                <RefinementPanel
+                                    versions={getVersions(history, rootId)}
+                                    currentId={refineVersionId}
+                                    isRefining={isRefining}
+                                    error={refineError}
+                                    onSelectVersion={id => { setRefineVersionId(id); setRefineError(null); }}
+                                    onRefine={handleRefine}
+                                    onClose={resetRefinement}
+                                />
+                            );
+                        })()}
+                        {backgroundTargetId && (
+                            <div className="w-full bg-gray-800 rounded-lg p-4 flex flex-col gap-4">
+                                <h3 className="text-lg font-semibold text-gray-200">{t('changeBackgroundTitle')}</h3>
+                                <BackgroundPicker value={replacementBackground} onChange={setReplacementBackground} allowPreserve={false} maxImageEdge={appSettings.maxImageEdge} />
+                                {backgroundError && <p className="text-sm text-red-400">{backgroundError}</p>}
+                                <div className="flex justify-end gap-4">
+                                    <button onClick={resetBackgroundReplacement} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                                        {t('cancelButton')}
+                                    </button>
+                                    <button onClick={handleApplyBackground} disabled={isReplacingBackground} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300 disabled:opacity-50">
+                                        {isReplacingBackground ? t('replacingBackground') : t('applyBackgroundButton')}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 );
-            
+            }
+
+            case AppState.BATCH: {
+                if (!selectedPerson) return null;
+                const progress = getBatchProgress(batchItems);
+                return (
+                    <div className="w-full flex flex-col items-center gap-4">
+                        {limitWarnings && <div className="w-full max-w-2xl">{renderLimitWarnings(() => handleStartBatch(true))}</div>}
+                        <BatchPanel
+                            items={batchItems}
+                            category={batchCategory}
+                            onCategoryChange={handleBatchCategoryChange}
+                            concurrency={batchConcurrency}
+                            onConcurrencyChange={setBatchConcurrency}
+                            isRunning={batchId !== null && !isBatchPaused && (progress.running > 0 || batchItems.some(item => item.status === 'ready'))}
+                            uploadErrors={batchUploadErrors}
+                            onAddFiles={handleAddBatchFiles}
+                            onRemoveItem={handleRemoveBatchItem}
+                            onSetBox={handleSetBatchItemBox}
+                            onStart={() => handleStartBatch()}
+                            onPause={() => setIsBatchPaused(true)}
+                            onRetryFailed={handleRetryFailedBatchItems}
+                        />
+                    </div>
+                );
+            }
+
             case AppState.ERROR:
                 return (
                     <div className="flex flex-col items-center gap-4 text-center bg-red-900/50 border border-red-700 p-8 rounded-lg">
                         <h2 className="text-2xl font-bold text-red-400">{t('errorTitle')}</h2>
                         <p className="text-red-300 max-w-md">{error}</p>
-                        <button onClick={handleReset} className="mt-4 px-6 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-300">{t('startOverButton')}</button>
+                        {errorDetail && (
+                            <details className="text-xs text-red-200/70 max-w-md text-left">
+                                <summary className="cursor-pointer">{t('errorDetailsLabel')}</summary>
+                                <p className="mt-2 break-words">{errorDetail}</p>
+                            </details>
+                        )}
+                        <div className="flex gap-4 mt-4">
+                            {failedStep !== null && (
+                                <button onClick={handleRetryStep} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-colors duration-300">{t('retryStepButton')}</button>
+                            )}
+                            <button onClick={handleReset} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-300">{t('startOverButton')}</button>
+                        </div>
                     </div>
                 );
 
@@ -462,16 +1379,6 @@ const App: React.FC = () => {
         }
     };
     
-    const statesWithBackButton: AppState[] = [
-        AppState.TARGET_PERSON_CHOOSING,
-        AppState.TARGET_PERSON_SELECTED,
-        AppState.SOURCE_TYPE_CHOSEN,
-        AppState.SOURCE_IMAGE_UPLOADED,
-        AppState.GARMENT_SELECTED,
-        AppState.RESULT_READY,
-        AppState.ERROR,
-    ];
-
     return (
         <div className="bg-gray-900 text-white min-h-screen font-sans">
             {showRestoreNotification && (
@@ -511,7 +1418,7 @@ const App: React.FC = () => {
             
             <main className="py-12 px-4 md:px-8">
                 <div className="max-w-7xl mx-auto flex flex-col items-center">
-                    {statesWithBackButton.includes(appState) && (
+                    {canGoBack(appState) && (
                         <div className="w-full max-w-4xl mb-8">
                              <button onClick={handleBack} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold text-sm transition-colors duration-300 flex items-center gap-2">
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -535,9 +1442,15 @@ const App: React.FC = () => {
             
             <footer className="text-center py-6 text-gray-500 text-sm border-t border-gray-800">
                  <p>{t('footerText')}</p>
-                 <p className={`text-xs mt-1 ${isApiKeySet ? 'text-green-500' : 'text-red-500'}`}>
-                    {isApiKeySet ? t('apiKeyConnected') : t('apiKeyMissing')}
-                 </p>
+                 {appSettings.provider === 'mock' ? (
+                    <p className="text-xs mt-1 text-yellow-500">{t('mockProviderActive')}</p>
+                 ) : appSettings.provider === 'proxy' ? (
+                    <p className="text-xs mt-1 text-green-500">{t('proxyProviderActive')}</p>
+                 ) : (
+                    <p className={`text-xs mt-1 ${isApiKeySet ? 'text-green-500' : 'text-red-500'}`}>
+                        {isApiKeySet ? t('apiKeyConnected') : apiKeyStatus === 'locked' ? t('apiKeyLockedFooter') : t('apiKeyMissing')}
+                    </p>
+                 )}
             </footer>
             
             <Settings 
@@ -545,6 +1458,17 @@ const App: React.FC = () => {
                 onClose={() => setIsSettingsOpen(false)}
                 onSave={handleSaveSettings}
                 currentSettings={appSettings}
+                promptTemplates={promptTemplates}
+                onSavePromptTemplates={handleSavePromptTemplates}
+                cacheStats={cacheStats}
+                onClearCache={handleClearCache}
+                usageRecords={usageRecords}
+                onClearUsage={handleClearUsage}
+                apiKeyStatus={apiKeyStatus}
+                onSaveApiKey={handleSaveApiKey}
+                onUnlockApiKey={handleUnlockApiKey}
+                onLockApiKey={handleLockApiKey}
+                onRemoveApiKey={handleRemoveApiKey}
             />
         </div>
     );
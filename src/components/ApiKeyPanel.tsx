@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useLocalization } from '../context/LocalizationContext';
+import type { ApiKeyStatus } from '../services/apiKeyService';
+
+interface ApiKeyPanelProps {
+  status: ApiKeyStatus;
+  /** Each action rejects with an Error whose message is ready to show. */
+  onSave: (apiKey: string, passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onRemove: () => Promise<void>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({ status, onSave, onUnlock, onLock, onRemove }) => {
+  const { t } = useLocalization();
+  const [apiKey, setApiKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setApiKey('');
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('passphraseTooShortError', { length: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError(t('passphraseMismatchError'));
+      return;
+    }
+    run(() => onSave(apiKey.trim(), passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => onUnlock(passphrase));
+  };
+
+  const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:opacity-50';
+  const removeButton = (
+    <button
+      type="button"
+      onClick={() => run(onRemove)}
+      disabled={isBusy}
+      className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50"
+    >
+      {t('removeApiKeyButton')}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      {status === 'none' && (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={t('apiKeyPlaceholder')}
+            autoComplete="off"
+            disabled={isBusy}
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={t('passphrasePlaceholder')}
+              autoComplete="new-password"
+              disabled={isBusy}
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              placeholder={t('confirmPassphrasePlaceholder')}
+              autoComplete="new-password"
+              disabled={isBusy}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isBusy || !apiKey.trim() || !passphrase}
+              className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {isBusy ? t('testingApiKey') : t('saveApiKeyButton')}
+            </button>
+          </div>
+        </form>
+      )}
+      {status === 'locked' && (
+        <form onSubmit={handleUnlock} className="space-y-2">
+          <p className="text-sm text-gray-300">{t('apiKeyLockedMessage')}</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t('passphrasePlaceholder')}
+            autoComplete="current-password"
+            disabled={isBusy}
+            className={inputClassName}
+          />
+          <div className="flex justify-end gap-2">
+            {removeButton}
+            <button
+              type="submit"
+              disabled={isBusy || !passphrase}
+              className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {t('unlockApiKeyButton')}
+            </button>
+          </div>
+        </form>
+      )}
+      {status === 'unlocked' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="flex-grow text-sm text-green-400">{t('apiKeyUnlockedMessage')}</p>
+          <button
+            type="button"
+            onClick={onLock}
+            disabled={isBusy}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50"
+          >
+            {t('lockApiKeyButton')}
+          </button>
+          {removeButton}
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <p className="text-xs text-gray-400">{t('apiKeyDescription')}</p>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { BACKGROUND_PRESETS, BackgroundMode } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { MAX_UPLOAD_BYTES, normalizeImage } from '../utils/fileUtils';
+
+interface BackgroundPickerProps {
+  value: BackgroundMode;
+  onChange: (background: BackgroundMode) => void;
+  /** Hides the "keep original" choice, e.g. when re-applying a background to a result. */
+  allowPreserve?: boolean;
+  /** The user's maximum image size, so custom backgrounds are downscaled like every other upload. */
+  maxImageEdge: number;
+}
+
+export const BackgroundPicker: React.FC<BackgroundPickerProps> = ({ value, onChange, allowPreserve = true, maxImageEdge }) => {
+  const { t } = useLocalization();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || file.size > MAX_UPLOAD_BYTES) return;
+    try {
+      const { dataUrl } = await normalizeImage(file, maxImageEdge);
+      onChange({ type: 'custom', image: dataUrl });
+    } catch (error) {
+      console.error('Could not load background image:', error);
+    }
+  };
+
+  const choiceClass = (isSelected: boolean) =>
+    `px-3 py-1 rounded-full text-sm font-semibold transition-colors duration-200 ${isSelected ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm font-medium text-gray-300">{t('backgroundLabel')}</span>
+      <div className="flex flex-wrap items-center gap-2">
+        {allowPreserve && (
+          <button onClick={() => onChange({ type: 'preserve' })} className={choiceClass(value.type === 'preserve')}>
+            {t('backgroundPreserve')}
+          </button>
+        )}
+        <button onClick={() => onChange({ type: 'studio' })} className={choiceClass(value.type === 'studio')}>
+          {t('backgroundStudio')}
+        </button>
+        {BACKGROUND_PRESETS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onChange({ type: 'preset', preset })}
+            className={choiceClass(value.type === 'preset' && value.preset === preset)}
+          >
+            {t(`backgroundPreset${preset.charAt(0).toUpperCase() + preset.slice(1)}`)}
+          </button>
+        ))}
+        <label className={`cursor-pointer ${choiceClass(value.type === 'custom')}`}>
+          {t('backgroundCustom')}
+          <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+        </label>
+        {value.type === 'custom' && (
+          <img src={value.image} alt={t('backgroundCustom')} className="h-10 w-10 object-cover rounded-md border border-gray-600" />
+        )}
+      </div>
+    </div>
+  );
+};
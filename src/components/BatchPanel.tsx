@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { BatchItem, BoundingBox, GarmentCategory } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { BATCH_CONCURRENCY_CHOICES, getBatchProgress } from '../services/batchService';
+import { GarmentCategoryPicker } from './GarmentCategoryPicker';
+import { ImageEditor } from './ImageEditor';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  category: GarmentCategory;
+  onCategoryChange: (category: GarmentCategory) => void;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  /** Whether the queue has been started and not paused. */
+  isRunning: boolean;
+  /** Problems with files that could not be added, already localized. */
+  uploadErrors: string[];
+  onAddFiles: (files: File[]) => void;
+  onRemoveItem: (id: string) => void;
+  onSetBox: (id: string, box: BoundingBox) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onRetryFailed: () => void;
+}
+
+// Items that are queued or finished can no longer be changed.
+const isEditable = (item: BatchItem) => item.status === 'needsBox' || item.status === 'ready' || item.status === 'failed';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  items, category, onCategoryChange, concurrency, onConcurrencyChange, isRunning, uploadErrors,
+  onAddFiles, onRemoveItem, onSetBox, onStart, onPause, onRetryFailed,
+}) => {
+  const { t } = useLocalization();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const progress = getBatchProgress(items);
+  const editingItem = items.find(item => item.id === editingId && isEditable(item));
+  const canStart = items.some(item => item.status === 'ready');
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) onAddFiles(files);
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  if (editingItem) {
+    return (
+      <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-4">
+        <ImageEditor
+          imageSrc={editingItem.sourceImage}
+          onBoxDrawn={(box) => {
+            onSetBox(editingItem.id, box);
+            setEditingId(null);
+          }}
+          boxColor="rgba(34, 197, 94, 0.9)"
+          instruction={t('step5Instruction')}
+          garmentBox={editingItem.box}
+        />
+        <button onClick={() => setEditingId(null)} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+          {t('cancelButton')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-6">
+      <h2 className="text-2xl font-bold text-center text-indigo-300">{t('batchTitle')}</h2>
+      <p className="text-gray-400 text-center">{t('batchDescription')}</p>
+      <GarmentCategoryPicker value={category} onChange={onCategoryChange} />
+      <label
+        onDrop={handleDrop}
+        onDragOver={(event) => event.preventDefault()}
+        className="w-full max-w-lg bg-gray-800 border-2 border-dashed border-gray-600 rounded-xl p-6 text-center cursor-pointer hover:border-indigo-500 transition-colors duration-300"
+      >
+        <input type="file" accept="image/*" multiple onChange={handleFileChange} className="hidden" />
+        <p className="font-semibold text-gray-200">{t('batchAddImages')}</p>
+        <p className="text-sm text-gray-400 mt-1">{t('batchAddImagesDescription')}</p>
+      </label>
+      {uploadErrors.length > 0 && (
+        <ul className="w-full max-w-lg text-sm text-red-400 list-disc list-inside">
+          {uploadErrors.map((message, index) => <li key={index}>{message}</li>)}
+        </ul>
+      )}
+      {items.length > 0 && (
+        <>
+          <div className="w-full flex flex-wrap items-center justify-between gap-4 bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-300">
+              {t('batchProgress', { done: progress.done, failed: progress.failed, total: progress.total })}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                {t('batchConcurrencyLabel')}
+                <select
+                  value={concurrency}
+                  onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white outline-none"
+                >
+                  {BATCH_CONCURRENCY_CHOICES.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                </select>
+              </label>
+              {progress.failed > 0 && (
+                <button onClick={onRetryFailed} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('batchRetryFailedButton')}
+                </button>
+              )}
+              {isRunning ? (
+                <button onClick={onPause} className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('batchPauseButton')}
+                </button>
+              ) : (
+                <button
+                  onClick={onStart}
+                  disabled={!canStart}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {progress.done + progress.failed + progress.running > 0 ? t('batchResumeButton') : t('batchStartButton')}
+                </button>
+              )}
+            </div>
+          </div>
+          {isRunning && progress.running > 0 && <p className="text-xs text-gray-400 animate-pulse">{t('batchRunning', { running: progress.running })}</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 w-full">
+            {items.map(item => (
+              <div key={item.id} className="flex flex-col gap-2 p-2 rounded-lg bg-gray-800">
+                <div className="relative aspect-square w-full">
+                  <img
+                    src={item.result ?? item.sourceImage}
+                    alt=""
+                    className={`w-full h-full object-cover rounded-md ${item.status === 'running' ? 'opacity-60 animate-pulse' : ''}`}
+                  />
+                  {item.result && (
+                    <img src={item.sourceImage} alt="" className="absolute bottom-1 left-1 w-1/4 aspect-square object-cover rounded border border-gray-900" />
+                  )}
+                </div>
+                <p className={`text-xs font-semibold ${item.status === 'failed' || item.status === 'needsBox' ? 'text-red-400' : item.status === 'done' ? 'text-green-400' : 'text-gray-300'}`}>
+                  {t(`batchStatus${item.status.charAt(0).toUpperCase() + item.status.slice(1)}`)}
+                </p>
+                {item.error && <p className="text-xs text-red-300 break-words">{item.error}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {item.result && (
+                    <a href={item.result} download={`virtual-try-on-batch-${item.id}.png`} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-white">
+                      {t('downloadButton')}
+                    </a>
+                  )}
+                  {isEditable(item) && (
+                    <button onClick={() => setEditingId(item.id)} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-white">
+                      {t('batchEditBoxButton')}
+                    </button>
+                  )}
+                  {item.status !== 'running' && (
+                    <button onClick={() => onRemoveItem(item.id)} className="px-2 py-1 bg-gray-700 hover:bg-red-600 rounded text-xs text-white">
+                      {t('removeButton')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { BoundingBox, ResultCandidate } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { isFlaggedVerification } from '../services/candidateService';
+
+interface CandidateGridProps {
+  candidates: ResultCandidate[];
+  onKeep: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onChangeBackground?: (id: string) => void;
+  onRefine?: (id: string) => void;
+  /** Numbered badges placed on each dressed person of a group result. */
+  personMarkers?: { id: string; box: BoundingBox }[];
+}
+
+export const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, onKeep, onDiscard, onToggleFavorite, onChangeBackground, onRefine, personMarkers = [] }) => {
+  const { t } = useLocalization();
+  const keptCount = candidates.filter(candidate => candidate.status === 'kept').length;
+
+  return (
+    <div className="w-full flex flex-col items-center gap-4">
+      <p className="text-gray-400 text-center">{t('candidatesDescription', { kept: keptCount, total: candidates.length })}</p>
+      <div className={`grid gap-6 w-full ${candidates.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1 max-w-2xl'}`}>
+        {candidates.map(candidate => (
+          <div
+            key={candidate.id}
+            className={`flex flex-col items-center gap-3 p-3 rounded-lg bg-gray-800 border-2 transition-opacity duration-300 ${candidate.status === 'kept' ? 'border-green-500' : 'border-transparent'} ${candidate.status === 'discarded' ? 'opacity-40' : ''}`}
+          >
+            <div className="relative w-full">
+              <img src={candidate.image} alt="Virtual try-on result" className="rounded-lg shadow-2xl w-full" />
+              {personMarkers.map((marker, index) => (
+                <span
+                  key={marker.id}
+                  className="absolute w-6 h-6 rounded-full bg-green-600 border-2 border-white text-white text-xs font-bold flex items-center justify-center pointer-events-none"
+                  style={{ left: `${marker.box.x * 100}%`, top: `${marker.box.y * 100}%` }}
+                  title={marker.id}
+                >
+                  {index + 1}
+                </span>
+              ))}
+              <button
+                onClick={() => onToggleFavorite(candidate.id)}
+                className={`absolute top-2 right-2 p-2 rounded-full bg-black/60 hover:bg-black/80 ${candidate.isFavorite ? 'text-yellow-400' : 'text-gray-300'}`}
+                aria-label={t('favoriteButton')}
+                aria-pressed={candidate.isFavorite}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                </svg>
+              </button>
+            </div>
+            {candidate.verification && (
+              <div className={`w-full rounded-md px-3 py-2 text-xs ${isFlaggedVerification(candidate.verification) ? 'bg-red-900/50 text-red-200' : 'bg-green-900/40 text-green-200'}`}>
+                <p className="font-semibold">
+                  {isFlaggedVerification(candidate.verification) ? t('verificationFlagged') : t('verificationPassed')}
+                </p>
+                <p>
+                  {t('verificationScores', {
+                    garment: candidate.verification.garmentFidelity,
+                    identity: candidate.verification.identityPreservation,
+                    background: candidate.verification.backgroundPreservation,
+                  })}
+                </p>
+                {candidate.verification.notes && <p className="text-gray-300 mt-1">{candidate.verification.notes}</p>}
+              </div>
+            )}
+            <div className="flex flex-wrap justify-center gap-2">
+              {candidate.status !== 'kept' && (
+                <button onClick={() => onKeep(candidate.id)} className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('keepButton')}
+                </button>
+              )}
+              {candidate.status !== 'discarded' && (
+                <button onClick={() => onDiscard(candidate.id)} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('discardButton')}
+                </button>
+              )}
+              {onChangeBackground && candidate.status !== 'discarded' && (
+                <button onClick={() => onChangeBackground(candidate.id)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('changeBackgroundButton')}
+                </button>
+              )}
+              {onRefine && candidate.status !== 'discarded' && (
+                <button onClick={() => onRefine(candidate.id)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                  {t('refineOpenButton')}
+                </button>
+              )}
+              <a href={candidate.image} download={`virtual-try-on-${candidate.id}.png`} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+                {t('downloadButton')}
+              </a>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { GarmentCategory, GARMENT_CATEGORIES } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+
+interface GarmentCategoryPickerProps {
+  value: GarmentCategory;
+  onChange: (category: GarmentCategory) => void;
+}
+
+export const GarmentCategoryPicker: React.FC<GarmentCategoryPickerProps> = ({ value, onChange }) => {
+  const { t } = useLocalization();
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2">
+      <p className="text-sm font-medium text-gray-300">{t('garmentCategoryLabel')}</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {GARMENT_CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => onChange(category)}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors duration-200 ${value === category ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+          >
+            {t(`garmentCategory${category.charAt(0).toUpperCase() + category.slice(1)}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { BoundingBox, GarmentSelection } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+
+interface GarmentListProps {
+  garments: GarmentSelection[];
+  onRemove?: (id: string) => void;
+}
+
+/**
+ * Positions the source image as a CSS background so only the garment box is visible.
+ */
+const cropStyle = (imageSrc: string, box: BoundingBox): React.CSSProperties => {
+  const position = (offset: number, size: number) => size >= 1 ? 0 : (offset / (1 - size)) * 100;
+  return {
+    backgroundImage: `url(${imageSrc})`,
+    backgroundSize: `${100 / box.width}% ${100 / box.height}%`,
+    backgroundPosition: `${position(box.x, box.width)}% ${position(box.y, box.height)}%`,
+  };
+};
+
+export const GarmentList: React.FC<GarmentListProps> = ({ garments, onRemove }) => {
+  const { t } = useLocalization();
+
+  if (garments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full">
+      <h3 className="text-lg font-semibold mb-3 text-gray-200">{t('selectedGarmentsTitle', { count: garments.length })}</h3>
+      <div className="flex flex-wrap gap-4">
+        {garments.map(garment => (
+          <div key={garment.id} className="flex flex-col items-center gap-1 w-24">
+            <div className="w-24 h-24 rounded-lg shadow-md bg-no-repeat bg-gray-800" style={cropStyle(garment.sourceImage, garment.box)} />
+            <span className="text-xs text-gray-300">{t(`garmentCategory${garment.category.charAt(0).toUpperCase() + garment.category.slice(1)}`)}</span>
+            {onRemove && (
+              <button onClick={() => onRemove(garment.id)} className="text-xs text-red-400 hover:text-red-300">
+                {t('removeButton')}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
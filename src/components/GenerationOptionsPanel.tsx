@@ -0,0 +1,66 @@
+import React from 'react';
+import { GarmentFit, GenerationOptions, SleeveStyle, TuckStyle } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+
+interface GenerationOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+const FIT_CHOICES: GarmentFit[] = ['auto', 'slim', 'regular', 'oversized'];
+const TUCK_CHOICES: TuckStyle[] = ['auto', 'tucked', 'untucked'];
+const SLEEVE_CHOICES: SleeveStyle[] = ['auto', 'rolled', 'down'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const GenerationOptionsPanel: React.FC<GenerationOptionsPanelProps> = ({ options, onChange }) => {
+  const { t } = useLocalization();
+
+  const update = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  const renderChoices = <K extends 'fit' | 'tuck' | 'sleeves'>(key: K, choices: GenerationOptions[K][]) => (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm font-medium text-gray-300">{t(`option${capitalize(key)}Label`)}</span>
+      <div className="flex flex-wrap gap-2">
+        {choices.map(choice => (
+          <button
+            key={choice}
+            onClick={() => update(key, choice)}
+            className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors duration-200 ${options[key] === choice ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+          >
+            {t(`option${capitalize(key)}${capitalize(choice)}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full bg-gray-800 rounded-lg p-4 flex flex-col gap-4">
+      <h3 className="text-lg font-semibold text-gray-200">{t('generationOptionsTitle')}</h3>
+      {renderChoices('fit', FIT_CHOICES)}
+      {renderChoices('tuck', TUCK_CHOICES)}
+      {renderChoices('sleeves', SLEEVE_CHOICES)}
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.preserveIdentity}
+          onChange={(e) => update('preserveIdentity', e.target.checked)}
+          className="h-4 w-4 rounded accent-indigo-600"
+        />
+        {t('optionPreserveIdentityLabel')}
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.keepAccessories}
+          onChange={(e) => update('keepAccessories', e.target.checked)}
+          className="h-4 w-4 rounded accent-indigo-600"
+        />
+        {t('optionKeepAccessoriesLabel')}
+      </label>
+    </div>
+  );
+};
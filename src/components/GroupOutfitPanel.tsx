@@ -0,0 +1,51 @@
+import React from 'react';
+import { PersonOutfit } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+
+interface GroupOutfitPanelProps {
+  /** Everyone being dressed, numbered in this order on the results. */
+  outfits: PersonOutfit[];
+  /** The person whose outfit is being chosen right now. */
+  activePersonId?: string;
+  /** Only offered while outfits are still being chosen. */
+  sameOutfitForAll?: boolean;
+  onSameOutfitForAllChange?: (sameOutfitForAll: boolean) => void;
+}
+
+export const GroupOutfitPanel: React.FC<GroupOutfitPanelProps> = ({ outfits, activePersonId, sameOutfitForAll, onSameOutfitForAllChange }) => {
+  const { t } = useLocalization();
+
+  const describeOutfit = (outfit: PersonOutfit) => {
+    if (outfit.person.id === activePersonId) return t('groupOutfitChoosing');
+    if (outfit.garments.length === 0) return t('groupOutfitUnchanged');
+    return outfit.garments.map(garment => t(`garmentCategory${garment.category.charAt(0).toUpperCase() + garment.category.slice(1)}`)).join(', ');
+  };
+
+  return (
+    <div className="w-full bg-gray-800 rounded-lg p-4 flex flex-col gap-3">
+      <h3 className="text-lg font-semibold text-gray-200">{t('groupOutfitTitle')}</h3>
+      <ul className="flex flex-col gap-2">
+        {outfits.map((outfit, index) => (
+          <li key={outfit.person.id} className="flex items-center gap-3 text-sm">
+            <span className="flex-shrink-0 w-6 h-6 rounded-full bg-green-600 text-white text-xs font-bold flex items-center justify-center">{index + 1}</span>
+            <span className={`font-semibold ${outfit.person.id === activePersonId ? 'text-indigo-300' : 'text-gray-200'}`}>{outfit.person.id}</span>
+            <span className="text-gray-400">
+              {sameOutfitForAll && outfit.person.id !== activePersonId ? t('groupOutfitSame') : describeOutfit(outfit)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {onSameOutfitForAllChange && (
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(sameOutfitForAll)}
+            onChange={(e) => onSameOutfitForAllChange(e.target.checked)}
+            className="h-4 w-4 rounded accent-indigo-600"
+          />
+          {t('sameOutfitForAllLabel')}
+        </label>
+      )}
+    </div>
+  );
+};
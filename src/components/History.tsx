@@ -1,12 +1,38 @@
 import React from 'react';
 import { HistoryItem } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { isFlaggedVerification } from '../services/candidateService';
 
 interface HistoryProps {
   history: HistoryItem[];
   onClearHistory: () => void;
 }
 
+type HistoryEntry = { type: 'item'; item: HistoryItem } | { type: 'batch'; batchId: string; items: HistoryItem[] };
+
+/**
+ * Collapses the results of each batch run into one entry, placed where its newest result is.
+ */
+const groupBatches = (history: HistoryItem[]): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  const batches = new Map<string, HistoryItem[]>();
+  for (const item of history) {
+    if (!item.batchId) {
+      entries.push({ type: 'item', item });
+      continue;
+    }
+    const batch = batches.get(item.batchId);
+    if (batch) {
+      batch.push(item);
+    } else {
+      const items = [item];
+      batches.set(item.batchId, items);
+      entries.push({ type: 'batch', batchId: item.batchId, items });
+    }
+  }
+  return entries;
+};
+
 export const History: React.FC<HistoryProps> = ({ history, onClearHistory }) => {
   const { t, language } = useLocalization();
 
@@ -14,9 +40,10 @@ export const History: React.FC<HistoryProps> = ({ history, onClearHistory }) =>
     return null;
   }
 
-  const formatTimestamp = (isoString: string) => {
+  // Ids start with the ISO timestamp of the result; batch results add a suffix after it.
+  const formatTimestamp = (id: string) => {
     try {
-      return new Date(isoString).toLocaleString(language, {
+      return new Date(id.slice(0, 24)).toLocaleString(language, {
         year: 'numeric',
         month: 'short',
         day: 'numeric',
@@ -28,6 +55,49 @@ export const History: React.FC<HistoryProps> = ({ history, onClearHistory }) =>
     }
   };
 
+  const renderItem = (item: HistoryItem) => (
+    <div key={item.id} className="flex flex-col items-center gap-2">
+      <div className="group relative aspect-square w-full transform transition-transform duration-300 hover:scale-105">
+        <img src={item.generatedImage} alt="Generated try-on" className="w-full h-full object-cover rounded-lg shadow-md" />
+        {item.verification && isFlaggedVerification(item.verification) && (
+          <span
+            className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-red-600/90 text-white text-xs font-semibold"
+            title={t('verificationScores', {
+              garment: item.verification.garmentFidelity,
+              identity: item.verification.identityPreservation,
+              background: item.verification.backgroundPreservation,
+            })}
+          >
+            {t('verificationFlaggedBadge')}
+          </span>
+        )}
+        {item.isFavorite && (
+          <span className="absolute top-2 right-2 p-1 rounded-full bg-black/60 text-yellow-400" aria-label={t('favoriteButton')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+            </svg>
+          </span>
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col items-center justify-end p-2 rounded-lg">
+          <a 
+            href={item.generatedImage} 
+            download={`virtual-try-on-${item.id}.png`} 
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transform translate-y-4 group-hover:translate-y-0 opacity-0 group-hover:opacity-100"
+            style={{ transition: 'transform 0.3s ease-out, opacity 0.3s ease-out' }}
+          >
+            {t('downloadButton')}
+          </a>
+        </div>
+      </div>
+      <p className="text-xs text-center text-gray-400">{formatTimestamp(item.id)}</p>
+      {item.instruction && (
+        <p className="text-xs text-center text-indigo-300 truncate w-full" title={item.instruction}>
+          {t('refinedVersionCaption', { instruction: item.instruction })}
+        </p>
+      )}
+    </div>
+  );
+
 
   return (
     <section className="w-full mt-12">
@@ -41,22 +111,14 @@ export const History: React.FC<HistoryProps> = ({ history, onClearHistory }) =>
         </button>
       </div>
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
-        {history.map(item => (
-          <div key={item.id} className="flex flex-col items-center gap-2">
-            <div className="group relative aspect-square w-full transform transition-transform duration-300 hover:scale-105">
-              <img src={item.generatedImage} alt="Generated try-on" className="w-full h-full object-cover rounded-lg shadow-md" />
-              <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col items-center justify-end p-2 rounded-lg">
-                <a 
-                  href={item.generatedImage} 
-                  download={`virtual-try-on-${item.id}.png`} 
-                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transform translate-y-4 group-hover:translate-y-0 opacity-0 group-hover:opacity-100"
-                  style={{ transition: 'transform 0.3s ease-out, opacity 0.3s ease-out' }}
-                >
-                  {t('downloadButton')}
-                </a>
-              </div>
+        {groupBatches(history).map(entry => entry.type === 'item' ? renderItem(entry.item) : (
+          <div key={entry.batchId} className="col-span-full bg-gray-800/60 rounded-lg p-4">
+            <p className="text-sm font-semibold text-gray-300 mb-3">
+              {t('historyBatchTitle', { count: entry.items.length, date: formatTimestamp(entry.batchId) })}
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+              {entry.items.map(renderItem)}
             </div>
-            <p className="text-xs text-center text-gray-400">{formatTimestamp(item.id)}</p>
           </div>
         ))}
       </div>
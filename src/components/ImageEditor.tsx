@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { BoundingBox } from '../types';
+import { BoundingBox, DetectedGarment } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { loadImage } from '../utils/fileUtils';
 
 interface ImageEditorProps {
   imageSrc: string;
@@ -9,14 +10,102 @@ interface ImageEditorProps {
   instruction: string;
   existingBox?: BoundingBox | null;
   garmentBox?: BoundingBox | null;
+  detectedGarments?: DetectedGarment[];
+  isDetectingGarments?: boolean;
+  onGarmentSelected?: (garment: DetectedGarment) => void;
+  /** The garment mask as a white-on-black PNG data URL at the image's size. */
+  garmentMask?: string | null;
+  /** Enables the mask tools. Called after every edit with the new mask (null when empty) and its bounds. */
+  onMaskChange?: (mask: string | null, bounds: BoundingBox | null) => void;
+  /**
+   * Keep the box adjustable with drag handles on every device and report it only on confirm,
+   * instead of reporting each box as soon as it is drawn with the mouse.
+   */
+  alwaysAdjustable?: boolean;
 }
 
 type DragState = 'move' | 'resize-tl' | 'resize-tr' | 'resize-bl' | 'resize-br' | null;
 
+type EditorTool = 'box' | 'brush' | 'eraser' | 'lasso';
+const EDITOR_TOOLS: EditorTool[] = ['box', 'brush', 'eraser', 'lasso'];
+const BRUSH_SIZES = [8, 16, 32]; // In screen pixels
+const MASK_COLOR = 'rgba(236, 72, 153, 1)';
+
 const HANDLE_SIZE = 16; // Larger for easier touch
 const MIN_BOX_SIZE = 20;
+const CLICK_TOLERANCE = 10; // A mouse drag smaller than this is treated as a click
+
+const containsPoint = (b: BoundingBox, pos: { x: number, y: number }) =>
+  pos.x >= b.x && pos.x <= b.x + b.width && pos.y >= b.y && pos.y <= b.y + b.height;
+
+/**
+ * The mask is edited as white on a transparent canvas. It is exported as white on black, which
+ * is what the model is told to expect, and returns null when nothing is painted.
+ */
+const exportMask = (mask: HTMLCanvasElement): { dataUrl: string, bounds: BoundingBox } | null => {
+  const context = mask.getContext('2d');
+  if (!context) return null;
+  const { data } = context.getImageData(0, 0, mask.width, mask.height);
+  let minX = mask.width, minY = mask.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (data[(y * mask.width + x) * 4 + 3] > 0) {
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const output = document.createElement('canvas');
+  output.width = mask.width;
+  output.height = mask.height;
+  const outputContext = output.getContext('2d');
+  if (!outputContext) return null;
+  outputContext.fillStyle = 'black';
+  outputContext.fillRect(0, 0, output.width, output.height);
+  outputContext.drawImage(mask, 0, 0);
+  return {
+    dataUrl: output.toDataURL('image/png'),
+    bounds: {
+      x: minX / mask.width,
+      y: minY / mask.height,
+      width: (maxX - minX + 1) / mask.width,
+      height: (maxY - minY + 1) / mask.height,
+    },
+  };
+};
+
+/**
+ * Turns an exported white-on-black mask back into white on transparent for editing.
+ */
+const importMask = (mask: HTMLCanvasElement, source: HTMLImageElement) => {
+  const context = mask.getContext('2d');
+  if (!context) return;
+  context.clearRect(0, 0, mask.width, mask.height);
+  context.drawImage(source, 0, 0, mask.width, mask.height);
+  const pixels = context.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+};
 
-export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn, boxColor, instruction, existingBox = null, garmentBox = null }) => {
+export const ImageEditor: React.FC<ImageEditorProps> = ({
+  imageSrc,
+  onBoxDrawn,
+  boxColor,
+  instruction,
+  existingBox = null,
+  garmentBox = null,
+  detectedGarments = [],
+  isDetectingGarments = false,
+  onGarmentSelected,
+  garmentMask = null,
+  onMaskChange,
+  alwaysAdjustable = false,
+}) => {
   const { t } = useLocalization();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -30,15 +119,54 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
   const [desktopBox, setDesktopBox] = useState<BoundingBox | null>(null);
   
-  // Mobile adjustment state
+  // Adjustment state, used on touch devices and whenever alwaysAdjustable is set
+  const showHandles = isTouchDevice || alwaysAdjustable;
   const [adjustableBox, setAdjustableBox] = useState<BoundingBox | null>(null);
   const [dragState, setDragState] = useState<DragState>(null);
   const [touchStart, setTouchStart] = useState<{ x: number, y: number } | null>(null);
 
+  // Detected garment candidates
+  const [hoveredGarmentId, setHoveredGarmentId] = useState<string | null>(null);
+
+  // Mask tools. The mask lives in an offscreen canvas at the image's own size.
+  const [tool, setTool] = useState<EditorTool>('box');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+  const [maskVersion, setMaskVersion] = useState(0); // Bumped to redraw after the mask canvas changed
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPaintPosRef = useRef<{ x: number; y: number } | null>(null);
+  // The mask this editor last reported, so the prop echoing it back does not reload the canvas.
+  const reportedMaskRef = useRef<string | null>(null);
+
   useEffect(() => {
     setIsTouchDevice('ontouchstart' in window || navigator.maxTouchPoints > 0);
   }, []);
 
+  // Size the mask canvas to the image and load the mask from the parent when it did not come from here.
+  useEffect(() => {
+    if (!onMaskChange) return;
+    const mask = maskCanvasRef.current;
+    if (mask?.dataset.src === imageSrc && garmentMask === reportedMaskRef.current) return;
+    let cancelled = false;
+
+    const loadMask = async () => {
+      const image = await loadImage(imageSrc);
+      const maskImage = garmentMask ? await loadImage(garmentMask) : null;
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.dataset.src = imageSrc;
+      if (maskImage) importMask(canvas, maskImage);
+      maskCanvasRef.current = canvas;
+      reportedMaskRef.current = garmentMask;
+      setLassoPoints([]);
+      setMaskVersion(version => version + 1);
+    };
+    loadMask().catch(err => console.error('Could not load the garment mask:', err));
+    return () => { cancelled = true; };
+  }, [imageSrc, garmentMask, onMaskChange]);
+
   // Effect to initialize or update the adjustable box, syncing with the parent's `garmentBox`
   useEffect(() => {
     // This effect ensures the touch UI (adjustableBox) reflects the official state (`garmentBox`).
@@ -132,12 +260,74 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
         }, 'rgba(0, 128, 255, 0.7)', 3);
       }
 
+      const mask = maskCanvasRef.current;
+      if (mask && mask.dataset.src === imageSrc) {
+        // Tint the painted area so it reads as a translucent overlay.
+        const tint = document.createElement('canvas');
+        tint.width = mask.width;
+        tint.height = mask.height;
+        const tintContext = tint.getContext('2d');
+        if (tintContext) {
+          tintContext.fillStyle = MASK_COLOR;
+          tintContext.fillRect(0, 0, tint.width, tint.height);
+          tintContext.globalCompositeOperation = 'destination-in';
+          tintContext.drawImage(mask, 0, 0);
+          context.save();
+          context.globalAlpha = 0.45;
+          context.drawImage(tint, 0, 0, canvas.width, canvas.height);
+          context.restore();
+        }
+      }
+
+      if (lassoPoints.length > 0) {
+        context.save();
+        context.strokeStyle = MASK_COLOR;
+        context.lineWidth = 2;
+        context.setLineDash([6, 4]);
+        context.beginPath();
+        lassoPoints.forEach((point, index) => index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y));
+        context.stroke();
+        context.setLineDash([]);
+        lassoPoints.forEach((point, index) => {
+          context.fillStyle = index === 0 ? MASK_COLOR : 'white';
+          context.beginPath();
+          context.arc(point.x, point.y, index === 0 ? CLICK_TOLERANCE / 2 : 3, 0, 2 * Math.PI);
+          context.fill();
+        });
+        context.restore();
+      }
+
+      // Detected garments are drawn as numbered dashed outlines; the hovered one is highlighted.
+      if (!isDrawing && tool === 'box') {
+        detectedGarments.forEach((garment, index) => {
+          const isHovered = garment.id === hoveredGarmentId;
+          const b = {
+            x: garment.box.x * canvas.width,
+            y: garment.box.y * canvas.height,
+            width: garment.box.width * canvas.width,
+            height: garment.box.height * canvas.height,
+          };
+          const label = String(index + 1);
+          context.save();
+          context.setLineDash(isHovered ? [] : [6, 4]);
+          context.strokeStyle = isHovered ? 'rgba(59, 130, 246, 1)' : 'rgba(250, 204, 21, 0.8)';
+          context.lineWidth = isHovered ? 3 : 2;
+          context.strokeRect(b.x, b.y, b.width, b.height);
+          context.font = '14px sans-serif';
+          context.fillStyle = isHovered ? 'rgba(59, 130, 246, 1)' : 'rgba(0, 0, 0, 0.6)';
+          context.fillRect(b.x, b.y, context.measureText(label).width + 10, 20);
+          context.fillStyle = 'white';
+          context.fillText(label, b.x + 5, b.y + 15);
+          context.restore();
+        });
+      }
+
       // Drawing logic: Mouse drawing takes precedence over other displays.
       if (isDrawing && desktopBox) {
         // Always show the box being drawn with the mouse.
         drawStyledBox(desktopBox, boxColor, 3);
-      } else if (isTouchDevice) {
-        // On touch devices, show the adjustable box when not drawing with a mouse.
+      } else if (showHandles && tool === 'box') {
+        // With handles, show the adjustable box when not drawing with a mouse.
         if (adjustableBox) {
           drawStyledBox(adjustableBox, boxColor, 3, true);
         }
@@ -151,7 +341,9 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
          }, boxColor, 3);
       }
     };
-  }, [imageSrc, desktopBox, boxColor, existingBox, garmentBox, isDrawing, adjustableBox, isTouchDevice, canvasSize, dragState]);
+    // maskVersion has no value to read; it only signals that the mask canvas was repainted.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageSrc, desktopBox, boxColor, existingBox, garmentBox, isDrawing, adjustableBox, showHandles, canvasSize, dragState, detectedGarments, hoveredGarmentId, tool, lassoPoints, maskVersion]);
 
   useEffect(() => {
     draw();
@@ -168,16 +360,141 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
     return { x: clientX - rect.left, y: clientY - rect.top };
   };
 
+  /**
+   * Returns the detected garment under the given canvas position. When boxes overlap,
+   * the smallest one wins so nested items (e.g. a bag over a coat) stay selectable.
+   */
+  const findGarmentAt = (pos: { x: number, y: number }): DetectedGarment | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const hits = detectedGarments.filter(garment => containsPoint({
+      x: garment.box.x * canvas.width,
+      y: garment.box.y * canvas.height,
+      width: garment.box.width * canvas.width,
+      height: garment.box.height * canvas.height,
+    }, pos));
+    if (hits.length === 0) return null;
+    return hits.reduce((smallest, garment) =>
+      garment.box.width * garment.box.height < smallest.box.width * smallest.box.height ? garment : smallest
+    );
+  };
+
+  // --- Mask Tools (mouse and touch) ---
+  const reportMask = () => {
+    const mask = maskCanvasRef.current;
+    if (!mask || !onMaskChange) return;
+    const exported = exportMask(mask);
+    reportedMaskRef.current = exported?.dataUrl ?? null;
+    onMaskChange(exported?.dataUrl ?? null, exported?.bounds ?? null);
+  };
+
+  const paintTo = (pos: { x: number; y: number }) => {
+    const mask = maskCanvasRef.current;
+    const canvas = canvasRef.current;
+    const context = mask?.getContext('2d');
+    if (!mask || !canvas || !context || canvas.width === 0) return;
+    const scale = mask.width / canvas.width;
+    const from = lastPaintPosRef.current ?? pos;
+    context.save();
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = 'white';
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x * scale, from.y * scale);
+    context.lineTo(pos.x * scale, pos.y * scale);
+    context.stroke();
+    context.restore();
+    lastPaintPosRef.current = pos;
+    setMaskVersion(version => version + 1);
+  };
+
+  const endPaint = () => {
+    if (!lastPaintPosRef.current) return;
+    lastPaintPosRef.current = null;
+    reportMask();
+  };
+
+  const closeLasso = () => {
+    const mask = maskCanvasRef.current;
+    const canvas = canvasRef.current;
+    const context = mask?.getContext('2d');
+    if (!mask || !canvas || !context || lassoPoints.length < 3) return;
+    const scale = mask.width / canvas.width;
+    context.fillStyle = 'white';
+    context.beginPath();
+    lassoPoints.forEach((point, index) => index === 0 ? context.moveTo(point.x * scale, point.y * scale) : context.lineTo(point.x * scale, point.y * scale));
+    context.closePath();
+    context.fill();
+    setLassoPoints([]);
+    setMaskVersion(version => version + 1);
+    reportMask();
+  };
+
+  // Each click or tap adds a corner; one on the first corner closes the shape.
+  const addLassoPoint = (pos: { x: number; y: number }) => {
+    const first = lassoPoints[0];
+    if (first && lassoPoints.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) < CLICK_TOLERANCE) {
+      closeLasso();
+      return;
+    }
+    setLassoPoints(prev => [...prev, pos]);
+  };
+
+  const handleToolPointerDown = (pos: { x: number; y: number }) => {
+    if (tool === 'lasso') {
+      addLassoPoint(pos);
+    } else {
+      lastPaintPosRef.current = null;
+      paintTo(pos);
+    }
+  };
+
+  const handleClearMask = () => {
+    const mask = maskCanvasRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+    setLassoPoints([]);
+    setMaskVersion(version => version + 1);
+    reportMask();
+  };
+
+  const handleToolChange = (nextTool: EditorTool) => {
+    setLassoPoints([]);
+    setTool(nextTool);
+  };
+
   // --- Desktop Mouse Handlers (now enabled on all devices) ---
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const pos = getCanvasPos(e.clientX, e.clientY);
+    if (tool !== 'box') {
+      handleToolPointerDown(pos);
+      return;
+    }
+    const handleDragState = alwaysAdjustable && adjustableBox ? getDragStateForPos(pos, adjustableBox) : null;
+    if (handleDragState) {
+      setDragState(handleDragState);
+      setTouchStart(pos);
+      return;
+    }
     setIsDrawing(true);
     setStartPoint(pos);
     setDesktopBox({ ...pos, width: 0, height: 0 });
   };
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !startPoint) return;
     const pos = getCanvasPos(e.clientX, e.clientY);
+    if (tool !== 'box') {
+      if (lastPaintPosRef.current) paintTo(pos);
+      return;
+    }
+    if (dragState) {
+      dragTo(pos);
+      return;
+    }
+    if (!isDrawing || !startPoint) {
+      setHoveredGarmentId(findGarmentAt(pos)?.id ?? null);
+      return;
+    }
     setDesktopBox({
       x: Math.min(pos.x, startPoint.x),
       y: Math.min(pos.y, startPoint.y),
@@ -186,10 +503,20 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
     });
   };
   const handleMouseUp = () => {
+    endPaint();
+    if (dragState) {
+      setDragState(null);
+      setTouchStart(null);
+      return;
+    }
     if (!isDrawing) return;
     setIsDrawing(false);
-    if (!desktopBox || !canvasRef.current || desktopBox.width < 10 || desktopBox.height < 10) {
-      setDesktopBox(null); return;
+    if (!desktopBox || !canvasRef.current || desktopBox.width < CLICK_TOLERANCE || desktopBox.height < CLICK_TOLERANCE) {
+      // A plain click on a detected garment selects it.
+      const clickedGarment = startPoint && onGarmentSelected ? findGarmentAt(startPoint) : null;
+      setDesktopBox(null);
+      if (clickedGarment) onGarmentSelected?.(clickedGarment);
+      return;
     }
     const canvas = canvasRef.current;
     const normalizedBox: BoundingBox = {
@@ -197,6 +524,11 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
       width: desktopBox.width / canvas.width, height: desktopBox.height / canvas.height,
     };
     setDesktopBox(null);
+    if (alwaysAdjustable) {
+      // The new box gets handles and is only reported on confirm.
+      setAdjustableBox(desktopBox);
+      return;
+    }
     onBoxDrawn(normalizedBox);
   };
 
@@ -211,8 +543,13 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
       return null;
   };
   const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-      if (!adjustableBox) return;
       const pos = getCanvasPos(e.touches[0].clientX, e.touches[0].clientY);
+      if (tool !== 'box') {
+          e.preventDefault();
+          handleToolPointerDown(pos);
+          return;
+      }
+      if (!adjustableBox) return;
       const currentDragState = getDragStateForPos(pos, adjustableBox);
       if (currentDragState) {
           e.preventDefault();
@@ -221,10 +558,18 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
       }
   };
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
+      if (tool !== 'box') {
+          e.preventDefault();
+          if (lastPaintPosRef.current) paintTo(getCanvasPos(e.touches[0].clientX, e.touches[0].clientY));
+          return;
+      }
       if (!dragState || !touchStart || !adjustableBox) return;
       e.preventDefault();
-      
-      const pos = getCanvasPos(e.touches[0].clientX, e.touches[0].clientY);
+      dragTo(getCanvasPos(e.touches[0].clientX, e.touches[0].clientY));
+  };
+  // Moves or resizes the adjustable box by the pointer's movement since the last call.
+  const dragTo = (pos: { x: number, y: number }) => {
+      if (!dragState || !touchStart || !adjustableBox) return;
       const clampedPos = {
           x: Math.max(0, Math.min(pos.x, canvasSize.width)),
           y: Math.max(0, Math.min(pos.y, canvasSize.height)),
@@ -277,6 +622,7 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
   };
   const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
       e.preventDefault();
+      endPaint();
       setDragState(null);
       setTouchStart(null);
   };
@@ -295,16 +641,52 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
 
   return (
     <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-4">
-      <h2 className="text-2xl font-bold text-center text-indigo-300">{isTouchDevice ? t('step5InstructionMobile') : instruction}</h2>
+      <h2 className="text-2xl font-bold text-center text-indigo-300">{isTouchDevice && !alwaysAdjustable ? t('step5InstructionMobile') : instruction}</h2>
+      {onMaskChange && (
+        <div className="w-full flex flex-wrap items-center justify-center gap-2">
+          {EDITOR_TOOLS.map(editorTool => (
+            <button
+              key={editorTool}
+              onClick={() => handleToolChange(editorTool)}
+              className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors duration-200 ${tool === editorTool ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {t(`maskTool${editorTool.charAt(0).toUpperCase() + editorTool.slice(1)}`)}
+            </button>
+          ))}
+          {(tool === 'brush' || tool === 'eraser') && (
+            <select
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              aria-label={t('brushSizeLabel')}
+              className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white outline-none"
+            >
+              {BRUSH_SIZES.map(size => <option key={size} value={size}>{t('brushSizeOption', { size })}</option>)}
+            </select>
+          )}
+          {tool === 'lasso' && lassoPoints.length >= 3 && (
+            <button onClick={closeLasso} className="px-3 py-1 rounded-md text-sm font-semibold bg-pink-600 hover:bg-pink-700 text-white transition-colors duration-200">
+              {t('closeLassoButton')}
+            </button>
+          )}
+          {garmentMask && (
+            <button onClick={handleClearMask} className="px-3 py-1 rounded-md text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors duration-200">
+              {t('clearMaskButton')}
+            </button>
+          )}
+        </div>
+      )}
+      {tool !== 'box' && <p className="text-sm text-gray-400 text-center">{t(`maskTool${tool.charAt(0).toUpperCase() + tool.slice(1)}Hint`)}</p>}
       <div ref={containerRef} className="w-full touch-none">
         <canvas
           ref={canvasRef}
-          onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}
+          onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp}
+          onMouseLeave={() => { handleMouseUp(); setHoveredGarmentId(null); }}
+          onDoubleClick={() => tool === 'lasso' && closeLasso()}
           onTouchStart={handleTouchStart} onTouchMove={handleTouchMove} onTouchEnd={handleTouchEnd}
-          className={`rounded-lg shadow-lg ${!isTouchDevice || isDrawing ? 'cursor-crosshair' : ''}`}
+          className={`rounded-lg shadow-lg ${!isTouchDevice || isDrawing || tool !== 'box' ? 'cursor-crosshair' : ''}`}
         />
       </div>
-      {isTouchDevice && (
+      {showHandles && tool === 'box' && (
          <button 
             onClick={handleConfirmSelection}
             disabled={!adjustableBox}
@@ -313,6 +695,30 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onBoxDrawn,
             {t('confirmSelectionButton')}
         </button>
       )}
+      {onGarmentSelected && (isDetectingGarments || detectedGarments.length > 0) && (
+        <div className="w-full">
+          <h3 className="text-sm font-semibold mb-2 text-gray-300">{t('detectedGarments')}</h3>
+          {isDetectingGarments ? (
+            <p className="text-sm text-gray-400 animate-pulse">{t('detectingGarments')}</p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {detectedGarments.map((garment, index) => (
+                <button
+                  key={garment.id}
+                  onClick={() => onGarmentSelected(garment)}
+                  onMouseEnter={() => setHoveredGarmentId(garment.id)}
+                  onMouseLeave={() => setHoveredGarmentId(null)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors duration-200 ${hoveredGarmentId === garment.id ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  <span className="font-semibold">{index + 1}. {t(`garmentCategory${garment.category.charAt(0).toUpperCase() + garment.category.slice(1)}`)}</span>
+                  <span className="text-gray-300"> · {garment.color} {garment.description}</span>
+                </button>
+              ))}
+              <p className="text-xs text-gray-400">{t('detectedGarmentsHint')}</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,18 +1,64 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { DetectedPerson } from '../types';
+import { BODY_REGIONS, BodyRegion, BoundingBox, DetectedPerson } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { ImageEditor } from './ImageEditor';
 
 interface PersonSelectorProps {
   imageSrc: string;
   people: DetectedPerson[];
-  onPersonSelected: (person: DetectedPerson) => void;
+  /** People selected earlier, e.g. when stepping back to this screen. */
+  initialSelection?: DetectedPerson[];
+  /** Called with everyone to dress, in the order they were picked. */
+  onPeopleSelected: (people: DetectedPerson[]) => void;
+  /** Called when a box was adjusted or a person was added by hand. */
+  onPeopleChange: (people: DetectedPerson[]) => void;
 }
 
-export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people, onPersonSelected }) => {
+const REGION_COLORS: Record<BodyRegion, string> = {
+  head: 'rgba(244, 114, 182, 0.8)',
+  torso: 'rgba(250, 204, 21, 0.8)',
+  legs: 'rgba(34, 197, 94, 0.8)',
+  feet: 'rgba(249, 115, 22, 0.8)',
+};
+
+/**
+ * The first free "Person N" id, matching the ids detection hands out.
+ */
+const nextPersonId = (people: DetectedPerson[]) => {
+  let number = people.length + 1;
+  while (people.some(person => person.id === `Person ${number}`)) number++;
+  return `Person ${number}`;
+};
+
+export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people, initialSelection = [], onPeopleSelected, onPeopleChange }) => {
   const { t } = useLocalization();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [hoveredPersonId, setHoveredPersonId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => initialSelection.map(person => person.id));
+  // The person whose box is being adjusted, or 'new' while drawing a person by hand.
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const togglePerson = (person: DetectedPerson) => {
+    setSelectedIds(prev => prev.includes(person.id) ? prev.filter(id => id !== person.id) : [...prev, person.id]);
+  };
+
+  const handleBoxConfirmed = (box: BoundingBox) => {
+    if (editingId === 'new') {
+      const person: DetectedPerson = { id: nextPersonId(people), box };
+      onPeopleChange([...people, person]);
+      setSelectedIds(prev => [...prev, person.id]);
+    } else {
+      // The body regions were measured against the old box, so they no longer apply.
+      onPeopleChange(people.map(person => person.id === editingId ? { ...person, box, regions: undefined } : person));
+    }
+    setEditingId(null);
+  };
+
+  const handleContinue = () => {
+    const selected = selectedIds.flatMap(id => people.filter(person => person.id === id));
+    if (selected.length > 0) onPeopleSelected(selected);
+  };
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -36,8 +82,28 @@ export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people
 
       people.forEach(person => {
         const isHovered = person.id === hoveredPersonId;
-        context.strokeStyle = isHovered ? 'rgba(59, 130, 246, 1)' : 'rgba(255, 255, 255, 0.7)';
-        context.lineWidth = isHovered ? 4 : 2;
+        const selectionIndex = selectedIds.indexOf(person.id);
+        const label = selectionIndex >= 0 ? `${selectionIndex + 1}. ${person.id}` : person.id;
+
+        // Body regions, drawn first so the person box stays on top. Hidden regions are skipped.
+        context.save();
+        context.setLineDash([4, 3]);
+        context.lineWidth = isHovered ? 2 : 1;
+        BODY_REGIONS.forEach(region => {
+          const detection = person.regions?.[region];
+          if (!detection?.visible) return;
+          context.strokeStyle = REGION_COLORS[region];
+          context.strokeRect(
+            detection.box.x * canvas.width,
+            detection.box.y * canvas.height,
+            detection.box.width * canvas.width,
+            detection.box.height * canvas.height
+          );
+        });
+        context.restore();
+
+        context.strokeStyle = isHovered ? 'rgba(59, 130, 246, 1)' : selectionIndex >= 0 ? 'rgba(34, 197, 94, 1)' : 'rgba(255, 255, 255, 0.7)';
+        context.lineWidth = isHovered || selectionIndex >= 0 ? 4 : 2;
         context.strokeRect(
           person.box.x * canvas.width,
           person.box.y * canvas.height,
@@ -45,8 +111,8 @@ export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people
           person.box.height * canvas.height
         );
 
-        context.fillStyle = isHovered ? 'rgba(59, 130, 246, 1)' : 'rgba(0, 0, 0, 0.6)';
-        const textWidth = context.measureText(person.id).width;
+        context.fillStyle = isHovered ? 'rgba(59, 130, 246, 1)' : selectionIndex >= 0 ? 'rgba(34, 197, 94, 1)' : 'rgba(0, 0, 0, 0.6)';
+        const textWidth = context.measureText(label).width;
         context.fillRect(
           person.box.x * canvas.width,
           person.box.y * canvas.height - 20,
@@ -55,10 +121,10 @@ export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people
         );
         context.fillStyle = 'white';
         context.font = '14px sans-serif';
-        context.fillText(person.id, person.box.x * canvas.width + 5, person.box.y * canvas.height - 5);
+        context.fillText(label, person.box.x * canvas.width + 5, person.box.y * canvas.height - 5);
       });
     };
-  }, [imageSrc, people, hoveredPersonId]);
+  }, [imageSrc, people, hoveredPersonId, selectedIds]);
 
   useEffect(() => {
     draw();
@@ -85,15 +151,34 @@ export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people
     });
 
     if (clickedPerson) {
-        onPersonSelected(clickedPerson);
+        togglePerson(clickedPerson);
     }
   };
 
 
+  if (editingId) {
+    return (
+      <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-4">
+        <ImageEditor
+          imageSrc={imageSrc}
+          onBoxDrawn={handleBoxConfirmed}
+          boxColor="rgba(59, 130, 246, 0.9)"
+          instruction={editingId === 'new' ? t('drawPersonInstruction') : t('adjustPersonInstruction', { person: editingId })}
+          garmentBox={people.find(person => person.id === editingId)?.box ?? null}
+          alwaysAdjustable
+        />
+        <button onClick={() => setEditingId(null)} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+          {t('cancelButton')}
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-4xl mx-auto flex flex-col lg:flex-row items-start gap-8">
         <div className="w-full lg:w-2/3 flex flex-col items-center gap-4">
             <h2 className="text-2xl font-bold text-center text-indigo-300">{t('step2Title')}</h2>
+            <p className="text-gray-400 text-center">{t('step2Description')}</p>
             <div ref={containerRef} className="w-full">
                 <canvas
                     ref={canvasRef}
@@ -123,18 +208,59 @@ export const PersonSelector: React.FC<PersonSelectorProps> = ({ imageSrc, people
         <div className="w-full lg:w-1/3">
             <h3 className="text-lg font-semibold mb-3 text-gray-200">{t('detectedPeople')}</h3>
             <div className="flex flex-col gap-2">
-                {people.length > 0 ? people.map(person => (
-                    <button
-                        key={person.id}
-                        onClick={() => onPersonSelected(person)}
-                        onMouseEnter={() => setHoveredPersonId(person.id)}
-                        onMouseLeave={() => setHoveredPersonId(null)}
-                        className={`w-full text-left p-3 rounded-md transition-colors duration-200 ${hoveredPersonId === person.id ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
-                    >
-                        {person.id}
-                    </button>
-                )) : <p className="text-gray-400">{t('noPeopleDetected')}</p>}
+                {people.length > 0 ? people.map(person => {
+                    const hiddenRegions = BODY_REGIONS.filter(region => person.regions?.[region]?.visible === false);
+                    const isSelected = selectedIds.includes(person.id);
+                    return (
+                        <div key={person.id} className="flex gap-2">
+                            <button
+                                onClick={() => togglePerson(person)}
+                                onMouseEnter={() => setHoveredPersonId(person.id)}
+                                onMouseLeave={() => setHoveredPersonId(null)}
+                                aria-pressed={isSelected}
+                                className={`flex-grow text-left p-3 rounded-md transition-colors duration-200 ${hoveredPersonId === person.id ? 'bg-indigo-600' : isSelected ? 'bg-green-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            >
+                                {isSelected ? `${selectedIds.indexOf(person.id) + 1}. ${person.id}` : person.id}
+                                {person.description && <span className="block text-sm text-gray-200">{person.description}</span>}
+                                {(person.pose || (person.clothing && person.clothing.length > 0)) && (
+                                    <span className="block text-xs text-gray-400 mt-1">
+                                        {[
+                                            person.pose && t(`personPose${person.pose.charAt(0).toUpperCase() + person.pose.slice(1)}`),
+                                            ...(person.clothing ?? []),
+                                        ].filter(Boolean).join(' · ')}
+                                    </span>
+                                )}
+                                {hiddenRegions.length > 0 && (
+                                    <span className="block text-xs text-yellow-300 mt-1">
+                                        {t('hiddenBodyRegions', {
+                                            regions: hiddenRegions.map(region => t(`bodyRegion${region.charAt(0).toUpperCase() + region.slice(1)}`)).join(', '),
+                                        })}
+                                    </span>
+                                )}
+                            </button>
+                            <button
+                                onClick={() => setEditingId(person.id)}
+                                className="px-3 rounded-md bg-gray-700 hover:bg-gray-600 text-xs text-gray-200 transition-colors duration-200"
+                            >
+                                {t('adjustBoxButton')}
+                            </button>
+                        </div>
+                    );
+                }) : <p className="text-gray-400">{t('noPeopleDetected')}</p>}
             </div>
+            <button
+                onClick={() => setEditingId('new')}
+                className="w-full mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold text-sm transition-colors duration-300"
+            >
+                {t('drawPersonButton')}
+            </button>
+            <button
+                onClick={handleContinue}
+                disabled={selectedIds.length === 0}
+                className="w-full mt-2 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {t('continueWithPeopleButton', { count: selectedIds.length })}
+            </button>
         </div>
     </div>
   );
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { DEFAULT_GENERATION_OPTIONS, Language, PromptTemplateKind, PromptTemplates } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { buildTryOnPrompt, DEFAULT_PROMPT_TEMPLATES, describeBackground, formatBox, PROMPT_TEMPLATE_VARIABLES, renderPromptTemplate } from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  templates: Record<Language, PromptTemplates>;
+  onChange: (language: Language, templates: PromptTemplates) => void;
+}
+
+const TEMPLATE_KINDS: PromptTemplateKind[] = ['tryOn', 'tryOnGarment', 'backgroundReplace', 'detection', 'garmentDetection', 'verification', 'refine'];
+
+// Example values used to render the preview.
+const SAMPLE_PERSON_BOX = { x: 0.25, y: 0.1, width: 0.4, height: 0.85 };
+const SAMPLE_GARMENT = { imageNumber: 2, box: { x: 0.3, y: 0.2, width: 0.4, height: 0.35 }, category: 'top' as const };
+const SAMPLE_CURRENT_CLOTHING = ['white t-shirt', 'blue jeans'];
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, onChange }) => {
+  const { t, language: uiLanguage } = useLocalization();
+  const [language, setLanguage] = useState<Language>(uiLanguage);
+  const [kind, setKind] = useState<PromptTemplateKind>('tryOn');
+
+  const current = templates[language];
+  const isDefault = current[kind] === DEFAULT_PROMPT_TEMPLATES[language][kind];
+
+  const renderPreview = () => {
+    switch (kind) {
+      case 'detection':
+      case 'garmentDetection':
+        return renderPromptTemplate(current[kind], {});
+      case 'verification':
+        return renderPromptTemplate(current.verification, { personBox: formatBox(SAMPLE_PERSON_BOX) });
+      case 'refine':
+        return renderPromptTemplate(current.refine, { instruction: t('refineSampleInstruction') });
+      case 'backgroundReplace':
+        return renderPromptTemplate(current.backgroundReplace, {
+          background: describeBackground({ type: 'studio' }, language, 2),
+        });
+      default:
+        return buildTryOnPrompt(current, language, SAMPLE_PERSON_BOX, [SAMPLE_GARMENT], DEFAULT_GENERATION_OPTIONS, { type: 'preserve' }, 2, SAMPLE_CURRENT_CLOTHING);
+    }
+  };
+  const preview = renderPreview();
+
+  const handleTemplateChange = (value: string) => {
+    onChange(language, { ...current, [kind]: value });
+  };
+
+  const handleReset = () => {
+    handleTemplateChange(DEFAULT_PROMPT_TEMPLATES[language][kind]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {(['ko', 'en'] as Language[]).map(lang => (
+          <button
+            key={lang}
+            onClick={() => setLanguage(lang)}
+            className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors ${language === lang ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+          >
+            {lang === 'ko' ? '한국어' : 'English'}
+          </button>
+        ))}
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as PromptTemplateKind)}
+          aria-label={t('promptTemplateKindLabel')}
+          className="flex-grow bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+        >
+          {TEMPLATE_KINDS.map(k => (
+            <option key={k} value={k}>{t(`promptTemplateKind${k.charAt(0).toUpperCase() + k.slice(1)}`)}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={current[kind]}
+        onChange={(e) => handleTemplateChange(e.target.value)}
+        rows={kind === 'tryOnGarment' ? 2 : 8}
+        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm font-mono text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <span>{t('promptTemplateVariablesLabel')}</span>
+        {PROMPT_TEMPLATE_VARIABLES[kind].length > 0
+          ? PROMPT_TEMPLATE_VARIABLES[kind].map(variable => (
+              <code key={variable} className="px-1.5 py-0.5 rounded bg-gray-700 text-indigo-300">{`{{${variable}}}`}</code>
+            ))
+          : <span>{t('promptTemplateNoVariables')}</span>}
+        <button
+          onClick={handleReset}
+          disabled={isDefault}
+          className="ml-auto px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('resetToDefaultButton')}
+        </button>
+      </div>
+      <div>
+        <p className="text-xs font-medium text-gray-300 mb-1">{t('promptPreviewLabel')}</p>
+        <pre className="w-full max-h-48 overflow-y-auto whitespace-pre-wrap bg-gray-900/60 border border-gray-700 rounded-lg p-3 text-xs text-gray-300">{preview}</pre>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryItem } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+
+interface RefinementPanelProps {
+  /** The original result and all of its refined versions, oldest first. */
+  versions: HistoryItem[];
+  currentId: string;
+  isRefining: boolean;
+  error: string | null;
+  onSelectVersion: (id: string) => void;
+  onRefine: (instruction: string) => void;
+  onClose: () => void;
+}
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ versions, currentId, isRefining, error, onSelectVersion, onRefine, onClose }) => {
+  const { t } = useLocalization();
+  const [instruction, setInstruction] = useState('');
+  const current = versions.find(version => version.id === currentId);
+
+  // A new version was made or another one was picked; start the next instruction from scratch.
+  useEffect(() => {
+    setInstruction('');
+  }, [currentId]);
+
+  if (!current) {
+    return null;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = instruction.trim();
+    if (!trimmed || isRefining) return;
+    onRefine(trimmed);
+  };
+
+  return (
+    <div className="w-full bg-gray-800 rounded-lg p-4 flex flex-col gap-4">
+      <h3 className="text-lg font-semibold text-gray-200">{t('refineTitle')}</h3>
+      <img src={current.generatedImage} alt="Refined try-on result" className="rounded-lg shadow-2xl w-full max-w-xl mx-auto" />
+      {current.instruction && <p className="text-sm text-gray-400 text-center">“{current.instruction}”</p>}
+      {versions.length > 1 && (
+        <div>
+          <p className="text-sm font-medium text-gray-300 mb-2">{t('refineVersionsLabel')}</p>
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {versions.map((version, index) => (
+              <button
+                key={version.id}
+                onClick={() => onSelectVersion(version.id)}
+                title={version.instruction ?? t('refineOriginalVersion')}
+                className={`relative flex-shrink-0 w-20 h-20 rounded-md overflow-hidden border-2 transition-colors ${version.id === currentId ? 'border-indigo-500' : 'border-transparent hover:border-gray-500'}`}
+              >
+                <img src={version.generatedImage} alt="" className="w-full h-full object-cover" />
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs">
+                  {index === 0 ? t('refineOriginalVersion') : `v${index + 1}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={t('refinePlaceholder')}
+          disabled={isRefining}
+          className="flex-grow bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={isRefining || !instruction.trim()}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold text-sm transition-colors duration-300 disabled:opacity-50"
+        >
+          {isRefining ? t('refining') : t('refineButton')}
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex justify-end gap-4">
+        <a href={current.generatedImage} download={`virtual-try-on-${current.id}.png`} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+          {t('downloadButton')}
+        </a>
+        <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
+          {t('closeButton')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,74 @@
 import React, { useState, useEffect } from 'react';
 import { useLocalization } from '../context/LocalizationContext';
-import { AppSettings } from '../types';
+import { AppSettings, CandidateMode, Language, PromptTemplates, TryOnProviderId, UsageRecord } from '../types';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { UsagePanel } from './UsagePanel';
+import { ApiKeyPanel } from './ApiKeyPanel';
+import type { CacheStats } from '../services/cacheService';
+import type { ApiKeyStatus } from '../services/apiKeyService';
+import { DEFAULT_PROXY_BASE_URL } from '../services/proxyProvider';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (settings: AppSettings) => void;
   currentSettings: AppSettings;
+  promptTemplates: Record<Language, PromptTemplates>;
+  onSavePromptTemplates: (templates: Record<Language, PromptTemplates>) => void;
+  cacheStats: CacheStats | null;
+  onClearCache: () => void;
+  usageRecords: UsageRecord[];
+  onClearUsage: () => void;
+  apiKeyStatus: ApiKeyStatus;
+  onSaveApiKey: (apiKey: string, passphrase: string) => Promise<void>;
+  onUnlockApiKey: (passphrase: string) => Promise<void>;
+  onLockApiKey: () => void;
+  onRemoveApiKey: () => Promise<void>;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSave, currentSettings }) => {
+const MAX_IMAGE_EDGE_CHOICES = [1024, 1536, 2048, 3072];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const Settings: React.FC<SettingsProps> = ({
+  isOpen, onClose, onSave, currentSettings, promptTemplates, onSavePromptTemplates, cacheStats, onClearCache, usageRecords, onClearUsage,
+  apiKeyStatus, onSaveApiKey, onUnlockApiKey, onLockApiKey, onRemoveApiKey,
+}) => {
   const { t } = useLocalization();
   const [localSettings, setLocalSettings] = useState<AppSettings>(currentSettings);
+  const [localTemplates, setLocalTemplates] = useState<Record<Language, PromptTemplates>>(promptTemplates);
 
   useEffect(() => {
     setLocalSettings(currentSettings);
   }, [currentSettings, isOpen]);
 
+  useEffect(() => {
+    setLocalTemplates(promptTemplates);
+  }, [promptTemplates, isOpen]);
+
   if (!isOpen) {
     return null;
   }
 
   const handleSave = () => {
     onSave(localSettings);
+    if (localTemplates !== promptTemplates) {
+      onSavePromptTemplates(localTemplates);
+    }
     onClose();
   };
   
-  const handleModelChange = (type: keyof AppSettings, value: string) => {
-    setLocalSettings(prev => ({ ...prev, [type]: value }));
+  const handleSettingChange = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setLocalSettings(prev => ({ ...prev, [key]: value }));
   };
 
   return (
     <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="settings-title">
-      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
         <div className="p-6 border-b border-gray-700 flex justify-between items-center">
           <h2 id="settings-title" className="text-2xl font-bold text-white">{t('settingsTitle')}</h2>
           <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('closeButton')}>
@@ -41,7 +77,50 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSave, cur
             </svg>
           </button>
         </div>
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label htmlFor="provider" className="block text-sm font-medium text-gray-300 mb-2">
+              {t('providerLabel')}
+            </label>
+            <select
+              id="provider"
+              value={localSettings.provider}
+              onChange={(e) => handleSettingChange('provider', e.target.value as TryOnProviderId)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            >
+              <option value="gemini">{t('providerGemini')}</option>
+              <option value="proxy">{t('providerProxy')}</option>
+              <option value="mock">{t('providerMock')}</option>
+            </select>
+            <p className="text-xs text-gray-400 mt-1">{t('providerDescription')}</p>
+          </div>
+          {localSettings.provider === 'proxy' ? (
+            <div>
+              <label htmlFor="proxy-base-url" className="block text-sm font-medium text-gray-300 mb-2">
+                {t('proxyBaseUrlLabel')}
+              </label>
+              <input
+                id="proxy-base-url"
+                type="text"
+                value={localSettings.proxyBaseUrl}
+                onChange={(e) => handleSettingChange('proxyBaseUrl', e.target.value)}
+                placeholder={DEFAULT_PROXY_BASE_URL}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+              />
+              <p className="text-xs text-gray-400 mt-1">{t('proxyBaseUrlDescription')}</p>
+            </div>
+          ) : (
+            <div>
+              <h3 className="text-sm font-medium text-gray-300 mb-2">{t('apiKeyTitle')}</h3>
+              <ApiKeyPanel
+                status={apiKeyStatus}
+                onSave={onSaveApiKey}
+                onUnlock={onUnlockApiKey}
+                onLock={onLockApiKey}
+                onRemove={onRemoveApiKey}
+              />
+            </div>
+          )}
           <div>
             <label htmlFor="detection-model" className="block text-sm font-medium text-gray-300 mb-2">
               {t('detectionModelLabel')}
@@ -49,7 +128,7 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSave, cur
             <select
               id="detection-model"
               value={localSettings.detectionModel}
-              onChange={(e) => handleModelChange('detectionModel', e.target.value)}
+              onChange={(e) => handleSettingChange('detectionModel', e.target.value)}
               className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
             >
               <option value="gemini-2.5-flash">gemini-2.5-flash</option>
@@ -64,12 +143,114 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSave, cur
             <select
               id="generation-model"
               value={localSettings.generationModel}
-              onChange={(e) => handleModelChange('generationModel', e.target.value)}
+              onChange={(e) => handleSettingChange('generationModel', e.target.value)}
               className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
             >
               <option value="gemini-2.5-flash-image">gemini-2.5-flash-image</option>
             </select>
           </div>
+          <div>
+            <label htmlFor="max-image-edge" className="block text-sm font-medium text-gray-300 mb-2">
+              {t('maxImageEdgeLabel')}
+            </label>
+            <select
+              id="max-image-edge"
+              value={localSettings.maxImageEdge}
+              onChange={(e) => handleSettingChange('maxImageEdge', Number(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            >
+              {MAX_IMAGE_EDGE_CHOICES.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">{t('maxImageEdgeDescription')}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="candidate-count" className="block text-sm font-medium text-gray-300 mb-2">
+                {t('candidateCountLabel')}
+              </label>
+              <select
+                id="candidate-count"
+                value={localSettings.candidateCount}
+                onChange={(e) => handleSettingChange('candidateCount', Number(e.target.value))}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+              >
+                {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="candidate-mode" className="block text-sm font-medium text-gray-300 mb-2">
+                {t('candidateModeLabel')}
+              </label>
+              <select
+                id="candidate-mode"
+                value={localSettings.candidateMode}
+                disabled={localSettings.candidateCount < 2}
+                onChange={(e) => handleSettingChange('candidateMode', e.target.value as CandidateMode)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:opacity-50"
+              >
+                <option value="parallel">{t('candidateModeParallel')}</option>
+                <option value="sequential">{t('candidateModeSequential')}</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+              <input
+                type="checkbox"
+                checked={localSettings.verifyResults}
+                onChange={(e) => handleSettingChange('verifyResults', e.target.checked)}
+                className="h-4 w-4 rounded accent-indigo-600"
+              />
+              {t('verifyResultsLabel')}
+            </label>
+            <p className="text-xs text-gray-400 mt-1">{t('verifyResultsDescription')}</p>
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+              <input
+                type="checkbox"
+                checked={localSettings.cropAndStitch}
+                onChange={(e) => handleSettingChange('cropAndStitch', e.target.checked)}
+                className="h-4 w-4 rounded accent-indigo-600"
+              />
+              {t('cropAndStitchLabel')}
+            </label>
+            <p className="text-xs text-gray-400 mt-1">{t('cropAndStitchDescription')}</p>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">{t('usageTitle')}</h3>
+            <UsagePanel
+              records={usageRecords}
+              settings={localSettings}
+              onChange={(changes) => setLocalSettings(prev => ({ ...prev, ...changes }))}
+              onClearUsage={onClearUsage}
+            />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">{t('cacheTitle')}</h3>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-400">
+                {cacheStats
+                  ? t('cacheSizeDescription', { entries: cacheStats.entries, size: formatBytes(cacheStats.bytes) })
+                  : t('cacheSizeLoading')}
+              </p>
+              <button
+                onClick={onClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('clearCacheButton')}
+              </button>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{t('cacheDescription')}</p>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">{t('promptTemplatesTitle')}</h3>
+            <PromptTemplateEditor
+              templates={localTemplates}
+              onChange={(language, templates) => setLocalTemplates(prev => ({ ...prev, [language]: templates }))}
+            />
+          </div>
         </div>
         <div className="px-6 py-4 bg-gray-800/50 border-t border-gray-700 flex justify-end gap-4">
           <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors duration-300">
@@ -0,0 +1,130 @@
+import React from 'react';
+import { AppSettings, ModelPrice, UsageRecord } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { summarizeDailyUsage } from '../services/usageService';
+
+type UsageSettings = Pick<AppSettings, 'modelPrices' | 'dailyGenerationLimit' | 'dailyCostLimit'>;
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  settings: UsageSettings;
+  onChange: (settings: Partial<UsageSettings>) => void;
+  onClearUsage: () => void;
+}
+
+// Number of days shown in the daily totals table.
+const DAYS_SHOWN = 7;
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, settings, onChange, onClearUsage }) => {
+  const { t } = useLocalization();
+  const days = summarizeDailyUsage(records, settings.modelPrices).slice(0, DAYS_SHOWN);
+  const models = Array.from(new Set([...Object.keys(settings.modelPrices), ...records.map(record => record.model)])).sort();
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: number) => {
+    const current = settings.modelPrices[model] ?? { input: 0, output: 0 };
+    onChange({ modelPrices: { ...settings.modelPrices, [model]: { ...current, [key]: value } } });
+  };
+
+  const inputClassName = 'w-24 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none';
+
+  return (
+    <div className="space-y-4">
+      {days.length > 0 ? (
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="py-1 font-medium">{t('usageDayColumn')}</th>
+              <th className="py-1 font-medium text-right">{t('usageCallsColumn')}</th>
+              <th className="py-1 font-medium text-right">{t('usageGenerationsColumn')}</th>
+              <th className="py-1 font-medium text-right">{t('usageErrorsColumn')}</th>
+              <th className="py-1 font-medium text-right">{t('usageTokensColumn')}</th>
+              <th className="py-1 font-medium text-right">{t('usageCostColumn')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(day => (
+              <tr key={day.day} className="border-b border-gray-700/50">
+                <td className="py-1">{day.day}</td>
+                <td className="py-1 text-right">{day.calls}</td>
+                <td className="py-1 text-right">{day.generations}</td>
+                <td className="py-1 text-right">{day.errors}</td>
+                <td className="py-1 text-right">{day.totalTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{formatCost(day.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-400">{t('usageEmpty')}</p>
+      )}
+      <div>
+        <p className="text-xs font-medium text-gray-300 mb-2">{t('usagePricesLabel')}</p>
+        <div className="space-y-2">
+          {models.map(model => (
+            <div key={model} className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              <span className="flex-grow font-mono text-xs">{model}</span>
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                {t('usageInputPriceLabel')}
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={settings.modelPrices[model]?.input ?? 0}
+                  onChange={(e) => handlePriceChange(model, 'input', Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                {t('usageOutputPriceLabel')}
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={settings.modelPrices[model]?.output ?? 0}
+                  onChange={(e) => handlePriceChange(model, 'output', Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-1">{t('usagePricesDescription')}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-xs font-medium text-gray-300">
+          {t('dailyGenerationLimitLabel')}
+          <input
+            type="number"
+            min={0}
+            value={settings.dailyGenerationLimit}
+            onChange={(e) => onChange({ dailyGenerationLimit: Math.max(0, Math.floor(Number(e.target.value))) })}
+            className={`${inputClassName} w-full mt-1`}
+          />
+        </label>
+        <label className="block text-xs font-medium text-gray-300">
+          {t('dailyCostLimitLabel')}
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            value={settings.dailyCostLimit}
+            onChange={(e) => onChange({ dailyCostLimit: Math.max(0, Number(e.target.value)) })}
+            className={`${inputClassName} w-full mt-1`}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-400">{t('softLimitsDescription')}</p>
+      <div className="flex justify-end">
+        <button
+          onClick={onClearUsage}
+          disabled={records.length === 0}
+          className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('clearUsageButton')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+// src/services/apiKeyService.ts
+
+import { deleteSecret, loadSecret, saveSecret } from '../utils/db';
+import { decryptSecret, encryptSecret } from '../utils/secrets';
+import { setRuntimeApiKey, validateApiKey } from './geminiService';
+
+const API_KEY_SECRET_ID = 'geminiApiKey';
+
+/**
+ * `none`: no key of the user's own is stored. `locked`: one is stored but not yet unlocked in this
+ * session. `unlocked`: it is in memory and used for every Gemini call.
+ */
+export type ApiKeyStatus = 'none' | 'locked' | 'unlocked';
+
+/**
+ * The status at startup. A stored key always starts locked; the decrypted key never outlives the page.
+ */
+export const getStoredApiKeyStatus = async (): Promise<ApiKeyStatus> => {
+    const secret = await loadSecret(API_KEY_SECRET_ID);
+    return secret ? 'locked' : 'none';
+};
+
+/**
+ * Checks the key with a request that costs no tokens, then stores it encrypted with the passphrase
+ * and starts using it. Nothing is stored if the check fails.
+ * @param modelName A model the key is checked against.
+ * @throws FitUpError if the key is rejected or cannot be checked.
+ */
+export const saveApiKey = async (apiKey: string, passphrase: string, modelName: string): Promise<void> => {
+    await validateApiKey(apiKey, modelName);
+    await saveSecret(await encryptSecret(API_KEY_SECRET_ID, apiKey, passphrase));
+    setRuntimeApiKey(apiKey);
+};
+
+/**
+ * Decrypts the stored key and uses it until the page is closed or the key is locked again.
+ * @throws Error('WRONG_PASSPHRASE') if the passphrase does not match.
+ */
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+    const secret = await loadSecret(API_KEY_SECRET_ID);
+    if (!secret) {
+        throw new Error('NO_STORED_API_KEY');
+    }
+    setRuntimeApiKey(await decryptSecret(secret, passphrase));
+};
+
+export const lockApiKey = (): void => {
+    setRuntimeApiKey(null);
+};
+
+export const removeApiKey = async (): Promise<void> => {
+    setRuntimeApiKey(null);
+    await deleteSecret(API_KEY_SECRET_ID);
+};
@@ -0,0 +1,45 @@
+// src/services/batchService.ts
+
+import { BatchItem, DetectedGarment, GarmentCategory } from '../types';
+
+export const BATCH_CONCURRENCY_CHOICES = [1, 2, 3, 4];
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Picks the garment to try on from a catalog photo: the largest one of the wanted category, or
+ * the largest one overall when the model labelled it differently. Null if nothing was found.
+ */
+export const pickBatchGarment = (garments: DetectedGarment[], category: GarmentCategory): DetectedGarment | null => {
+    const area = (garment: DetectedGarment) => garment.box.width * garment.box.height;
+    const largest = (candidates: DetectedGarment[]) =>
+        candidates.reduce<DetectedGarment | null>((best, garment) => (!best || area(garment) > area(best) ? garment : best), null);
+    return largest(garments.filter(garment => garment.category === category)) ?? largest(garments);
+};
+
+/**
+ * The queued items to start now so that at most `concurrency` items run at once, in queue order.
+ */
+export const nextBatchItems = (items: BatchItem[], concurrency: number): BatchItem[] => {
+    const running = items.filter(item => item.status === 'running').length;
+    return items.filter(item => item.status === 'ready').slice(0, Math.max(0, concurrency - running));
+};
+
+export interface BatchProgress {
+    total: number;
+    done: number;
+    failed: number;
+    running: number;
+    /** Items that still have to run, including those waiting for a box. */
+    remaining: number;
+}
+
+export const getBatchProgress = (items: BatchItem[]): BatchProgress => {
+    const count = (...statuses: BatchItem['status'][]) => items.filter(item => statuses.includes(item.status)).length;
+    return {
+        total: items.length,
+        done: count('done'),
+        failed: count('failed'),
+        running: count('running'),
+        remaining: count('detecting', 'needsBox', 'ready'),
+    };
+};
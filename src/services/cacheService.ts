@@ -0,0 +1,155 @@
+// src/services/cacheService.ts
+
+import { CachedGeneration, CacheKind, TryOnProviderId, TryOnRequest } from '../types';
+import { getCacheEntry, loadAllCacheEntries, putCacheEntry } from '../utils/db';
+
+/**
+ * Returns the hex SHA-256 digest of a string.
+ */
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Builds a cache key from everything that influences a result. Images are hashed on their own
+ * first so the key material stays small no matter how large the photos are.
+ */
+const cacheKey = async (kind: string, images: string[], inputs: unknown): Promise<string> => {
+    const imageHashes = await Promise.all(images.map(sha256));
+    return sha256(JSON.stringify([kind, imageHashes, inputs]));
+};
+
+/**
+ * Runs a key computation, treating a failure as having no key. Hashing needs `crypto.subtle`,
+ * which browsers only offer on secure origins, so e.g. a LAN address over http has no cache at all.
+ */
+const keyOrNull = async (compute: () => Promise<string>): Promise<string | null> => {
+    try {
+        return await compute();
+    } catch (e) {
+        console.warn('Cache key could not be computed:', e);
+        return null;
+    }
+};
+
+/**
+ * Key for a person or garment detection of one image, or null when no key can be computed.
+ * @param detection Which detection ran, e.g. 'people' or 'garments'.
+ */
+export const detectionCacheKey = (
+    detection: string,
+    provider: TryOnProviderId,
+    modelName: string,
+    image: string,
+    prompt: string
+): Promise<string | null> => keyOrNull(() => cacheKey(`detection:${detection}`, [image], [provider, modelName, prompt]));
+
+const generationKey = async (
+    provider: TryOnProviderId,
+    modelName: string,
+    request: TryOnRequest,
+    cropAndStitch: boolean,
+    followUps: TryOnRequest[]
+): Promise<string> => {
+    if (followUps.length > 0) {
+        const stepKeys = await Promise.all([request, ...followUps].map(step => generationKey(provider, modelName, step, cropAndStitch, [])));
+        return sha256(JSON.stringify(['generation:chain', stepKeys]));
+    }
+    const { targetImage, garments, background, ...rest } = request;
+    const images = [
+        targetImage,
+        ...garments.map(garment => garment.sourceImage),
+        ...garments.flatMap(garment => garment.mask ? [garment.mask] : []),
+    ];
+    if (background?.type === 'custom') {
+        images.push(background.image);
+    }
+    return cacheKey('generation', images, [
+        provider,
+        modelName,
+        rest,
+        garments.map(garment => [garment.box, garment.category, Boolean(garment.mask)]),
+        background?.type === 'custom' ? 'custom' : background,
+        cropAndStitch,
+    ]);
+};
+
+/**
+ * Key for a try-on generation, or null when no key can be computed. Every image, box, option and
+ * template of the request is part of it; the number of candidates is not, so a cached set is
+ * offered whatever the current count.
+ * @param cropAndStitch Whether the results were stitched into the full-resolution photo.
+ * @param followUps Requests for the other people of a group run, chained after `request`.
+ */
+export const generationCacheKey = (
+    provider: TryOnProviderId,
+    modelName: string,
+    request: TryOnRequest,
+    cropAndStitch: boolean,
+    followUps: TryOnRequest[] = []
+): Promise<string | null> => keyOrNull(() => generationKey(provider, modelName, request, cropAndStitch, followUps));
+
+/**
+ * Reads a cached value. A missing key or a broken or unavailable cache counts as a miss.
+ */
+export const readCache = async <T>(key: string | null): Promise<T | undefined> => {
+    if (key === null) {
+        return undefined;
+    }
+    try {
+        return (await getCacheEntry<T>(key))?.value;
+    } catch (e) {
+        console.warn('Cache read failed:', e);
+        return undefined;
+    }
+};
+
+/**
+ * Stores a value. Without a key nothing is stored, and failures are logged and otherwise ignored;
+ * the cache is only an optimisation.
+ */
+export const writeCache = async (key: string | null, kind: CacheKind, value: unknown): Promise<void> => {
+    if (key === null) {
+        return;
+    }
+    try {
+        await putCacheEntry({ key, kind, createdAt: Date.now(), value });
+    } catch (e) {
+        console.warn('Cache write failed:', e);
+    }
+};
+
+/**
+ * Returns the cached detection for the key, or runs it and caches the result.
+ * Empty results are not cached so a retry asks the model again.
+ */
+export const cachedDetection = async <T>(key: string | null, detect: () => Promise<T[]>): Promise<T[]> => {
+    const hit = await readCache<T[]>(key);
+    if (hit) {
+        return hit;
+    }
+    const result = await detect();
+    if (result.length > 0) {
+        await writeCache(key, 'detection', result);
+    }
+    return result;
+};
+
+export const readCachedGeneration = (key: string | null): Promise<CachedGeneration | undefined> => readCache<CachedGeneration>(key);
+
+export const writeCachedGeneration = (key: string | null, generation: CachedGeneration): Promise<void> => writeCache(key, 'generation', generation);
+
+export interface CacheStats {
+    entries: number;
+    /** Approximate size, measured as the length of the serialized entries. */
+    bytes: number;
+}
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const entries = await loadAllCacheEntries();
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((total, entry) => total + JSON.stringify(entry).length, 0),
+    };
+};
@@ -0,0 +1,130 @@
+// src/services/candidateService.ts
+
+import { CandidateMode, TryOnRequest, VerificationResult } from '../types';
+import { cropImage } from '../utils/fileUtils';
+import type { TryOnProvider } from './tryOnProvider';
+import { FitUpError } from './errors';
+
+/**
+ * Runs the same try-on request several times to get a set of variants to choose from.
+ * Failed runs are dropped; the call only fails if every run failed.
+ * @param provider The provider to generate with.
+ * @param request The try-on request shared by every candidate.
+ * @param modelName The name of the generation model to use.
+ * @param count How many candidates to generate.
+ * @param mode Whether to issue the calls at once or one after another.
+ * @param onProgress Called with the number of finished runs after each one settles.
+ * @param signal Optional signal to cancel all outstanding runs.
+ * @returns A promise that resolves to the generated images, in completion order for parallel runs.
+ */
+export const generateCandidates = async (
+    provider: TryOnProvider,
+    request: TryOnRequest,
+    modelName: string,
+    count: number,
+    mode: CandidateMode,
+    onProgress?: (completed: number) => void,
+    signal?: AbortSignal
+): Promise<string[]> => {
+    const images: string[] = [];
+    const errors: unknown[] = [];
+    let completed = 0;
+
+    const runOnce = async () => {
+        try {
+            images.push(await provider.generateVirtualTryOnImage(request, modelName, signal));
+        } catch (e) {
+            errors.push(e);
+        } finally {
+            completed++;
+            onProgress?.(completed);
+        }
+    };
+
+    if (mode === 'parallel') {
+        await Promise.all(Array.from({ length: count }, runOnce));
+    } else {
+        for (let i = 0; i < count && !signal?.aborted; i++) {
+            await runOnce();
+        }
+    }
+
+    if (signal?.aborted) {
+        throw new FitUpError('cancelled');
+    }
+    if (images.length === 0) {
+        throw errors[0] ?? new FitUpError('generationFailed');
+    }
+    return images;
+};
+
+/**
+ * Results with any score below this are flagged for review, even if the model passed them.
+ */
+export const VERIFICATION_SCORE_THRESHOLD = 60;
+
+/**
+ * Whether a verified result should be flagged as likely broken.
+ */
+export const isFlaggedVerification = (verification: VerificationResult): boolean =>
+    !verification.passed ||
+    Math.min(verification.garmentFidelity, verification.identityPreservation, verification.backgroundPreservation) < VERIFICATION_SCORE_THRESHOLD;
+
+/**
+ * Combines the checks of the people of one group result: it is only as good as its worst-dressed person.
+ */
+const mergeVerifications = (results: VerificationResult[]): VerificationResult => {
+    if (results.length === 1) return results[0];
+    const notes = results.map(result => result.notes).filter(Boolean).join(' ');
+    return {
+        garmentFidelity: Math.min(...results.map(result => result.garmentFidelity)),
+        identityPreservation: Math.min(...results.map(result => result.identityPreservation)),
+        backgroundPreservation: Math.min(...results.map(result => result.backgroundPreservation)),
+        passed: results.every(result => result.passed),
+        notes: notes || undefined,
+    };
+};
+
+/**
+ * Grades each generated image against the inputs of the try-on requests.
+ * For a group result every person is checked against their own box and garments, and the image
+ * only counts as verified when all of those checks completed.
+ * Verification is advisory: a failed check leaves that image unverified instead of failing the batch.
+ * @param provider The provider to verify with.
+ * @param requests The try-on requests the images were generated from, one per person.
+ * @param images The generated images.
+ * @param modelName The name of the detection model to use.
+ * @param template The verification template.
+ * @param signal Optional signal to cancel all outstanding checks.
+ * @returns A promise that resolves to one result per image, `undefined` where the check failed.
+ */
+export const verifyCandidates = async (
+    provider: TryOnProvider,
+    requests: TryOnRequest[],
+    images: string[],
+    modelName: string,
+    template?: string,
+    signal?: AbortSignal
+): Promise<(VerificationResult | undefined)[]> => {
+    const garmentImages = await Promise.all(requests.map(request =>
+        Promise.all(request.garments.map(garment => cropImage(garment.sourceImage, garment.box)))
+    ));
+    const results = await Promise.all(images.map(async resultImage => {
+        try {
+            return mergeVerifications(await Promise.all(requests.map((request, index) => provider.verifyTryOnResult(
+                { targetImage: request.targetImage, personBox: request.personBox, garmentImages: garmentImages[index], resultImage },
+                modelName,
+                template,
+                signal
+            ))));
+        } catch (e) {
+            console.warn('Result verification failed:', e);
+            return undefined;
+        }
+    }));
+
+    if (signal?.aborted) {
+        throw new FitUpError('cancelled');
+    }
+    return results;
+};
@@ -0,0 +1,21 @@
+// src/services/errors.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { toFitUpError } from './errors';
+
+describe('toFitUpError', () => {
+    it.each(['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed', 'fetch failed'])(
+        'treats the fetch failure "%s" as a retryable network error',
+        message => {
+            const error = toFitUpError(new TypeError(message), 'generationFailed');
+            expect(error.code).toBe('network');
+            expect(error.retryable).toBe(true);
+        }
+    );
+
+    it('uses the fallback for other TypeErrors', () => {
+        const error = toFitUpError(new TypeError("Cannot read properties of undefined (reading 'match')"), 'generationFailed');
+        expect(error.code).toBe('generationFailed');
+        expect(error.retryable).toBe(false);
+    });
+});
@@ -0,0 +1,124 @@
+// src/services/errors.ts
+
+import { ApiError } from '@google/genai';
+
+export type FitUpErrorCode =
+    | 'apiKeyMissing'
+    | 'invalidApiKey'
+    | 'quotaExceeded'
+    | 'safetyBlocked'
+    | 'noImageReturned'
+    | 'invalidImage'
+    | 'network'
+    | 'serverError'
+    | 'detectionFailed'
+    | 'generationFailed'
+    | 'verificationFailed'
+    | 'payloadTooLarge'
+    | 'invalidRequest'
+    | 'unsupportedByProvider'
+    | 'cancelled';
+
+/**
+ * Localization key shown to the user for each error code.
+ */
+const MESSAGE_KEYS: Record<FitUpErrorCode, string> = {
+    apiKeyMissing: 'errorApiKeyMissing',
+    invalidApiKey: 'errorInvalidApiKey',
+    quotaExceeded: 'errorQuotaExceeded',
+    safetyBlocked: 'errorSafetyBlock',
+    noImageReturned: 'errorGenerationNoImage',
+    invalidImage: 'imageProcessingError',
+    network: 'errorNetwork',
+    serverError: 'errorGenericApi',
+    detectionFailed: 'detectionFailedError',
+    generationFailed: 'generationFailedError',
+    verificationFailed: 'verificationFailedError',
+    payloadTooLarge: 'errorPayloadTooLarge',
+    invalidRequest: 'errorInvalidRequest',
+    unsupportedByProvider: 'errorUnsupportedByProvider',
+    cancelled: 'requestCancelled',
+};
+
+/**
+ * Codes for failures that are usually transient and worth retrying automatically.
+ * Gemini reports short-term rate limits as 429 as well, so quota errors are retried before giving up.
+ */
+const RETRYABLE_CODES: FitUpErrorCode[] = ['quotaExceeded', 'noImageReturned', 'network', 'serverError'];
+
+interface FitUpErrorOptions {
+    status?: number;
+    providerDetail?: string;
+    retryable?: boolean;
+}
+
+/**
+ * A classified failure from a provider call.
+ * `message` is the code so errors stay readable in logs; use `messageKey` for the UI.
+ */
+export class FitUpError extends Error {
+    readonly code: FitUpErrorCode;
+    readonly retryable: boolean;
+    readonly status?: number;
+    readonly providerDetail?: string;
+
+    constructor(code: FitUpErrorCode, options: FitUpErrorOptions = {}) {
+        super(code);
+        this.name = 'FitUpError';
+        this.code = code;
+        this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code);
+        this.status = options.status;
+        this.providerDetail = options.providerDetail;
+    }
+
+    get messageKey(): string {
+        return MESSAGE_KEYS[this.code];
+    }
+}
+
+const codeForStatus = (status: number, message: string, fallback: FitUpErrorCode): FitUpErrorCode => {
+    if (status === 429) return 'quotaExceeded';
+    if (status === 401 || status === 403) return 'invalidApiKey';
+    if (status === 400 && /api key/i.test(message)) return 'invalidApiKey';
+    if (status === 408 || status >= 500) return 'serverError';
+    return fallback;
+};
+
+/**
+ * What fetch() rejects with when the request never reached the server, per runtime:
+ * Chrome, Firefox, Safari and Node. Other TypeErrors are bugs and must not look like a lost connection.
+ */
+const FETCH_FAILURE_PATTERN = /^(Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed|fetch failed)$/;
+
+export const isFitUpErrorCode = (code: unknown): code is FitUpErrorCode =>
+    typeof code === 'string' && code in MESSAGE_KEYS;
+
+/**
+ * Converts anything thrown during a provider call into a FitUpError.
+ * @param error The caught value.
+ * @param fallback The code to use when the error cannot be classified.
+ */
+export const toFitUpError = (error: unknown, fallback: FitUpErrorCode): FitUpError => {
+    if (error instanceof FitUpError) {
+        return error;
+    }
+    if ((error as { name?: string } | null)?.name === 'AbortError') {
+        return new FitUpError('cancelled');
+    }
+    if (error instanceof ApiError) {
+        return new FitUpError(codeForStatus(error.status, error.message, fallback), {
+            status: error.status,
+            providerDetail: error.message,
+        });
+    }
+    if (error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message)) {
+        return new FitUpError('network', { providerDetail: error.message });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('429') || message.includes('quota')) {
+        return new FitUpError('quotaExceeded', { status: 429, providerDetail: message });
+    }
+    return new FitUpError(fallback, { providerDetail: message });
+};
+
+export const isRetryableError = (error: unknown): boolean => error instanceof FitUpError && error.retryable;
@@ -1,14 +1,31 @@
 // src/services/geminiService.ts
 
-import { GoogleGenAI, Modality, Type } from '@google/genai';
-import { BoundingBox, DetectedPerson } from '../types';
+import { Content, FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, Type } from '@google/genai';
+import { BackgroundMode, BODY_REGIONS, BodyRegion, BoundingBox, DEFAULT_GENERATION_OPTIONS, DetectedGarment, DetectedPerson, GARMENT_CATEGORIES, Language, PERSON_POSES, RefinementRequest, TryOnRequest, UsageKind, UsageOutcome, UsageRecord, VerificationRequest, VerificationResult } from '../types';
+import type { TryOnProvider } from './tryOnProvider';
+import { FitUpError, FitUpErrorCode, isRetryableError, toFitUpError } from './errors';
+import { withRetry } from '../utils/retry';
+import { buildTryOnPrompt, DEFAULT_PROMPT_TEMPLATES, describeBackground, formatBox, PromptGarment, renderPromptTemplate } from './promptTemplates';
+
+// A key the user entered at runtime (see apiKeyService.ts). It takes precedence over the build-time key.
+let runtimeApiKey: string | null = null;
+
+/**
+ * Sets or clears the key entered at runtime. It is only kept in memory.
+ */
+export const setRuntimeApiKey = (apiKey: string | null) => {
+    runtimeApiKey = apiKey;
+};
 
 /**
- * Retrieves the Gemini API key from the appropriate environment variable.
- * Handles both Vite/Vercel (import.meta.env) and Google AI Studio (process.env).
+ * Retrieves the Gemini API key: the runtime key if one is unlocked, otherwise the appropriate
+ * environment variable. Handles both Vite/Vercel (import.meta.env) and Google AI Studio (process.env).
  * @returns The API key string, or undefined if not found.
  */
 const getApiKey = (): string | undefined => {
+    if (runtimeApiKey) {
+        return runtimeApiKey;
+    }
     try {
         // Vercel/Vite environment variable (`.env` file or Vercel dashboard)
         // @ts-ignore
@@ -30,12 +47,27 @@ const getApiKey = (): string | undefined => {
 
 
 /**
- * Checks if the Gemini API key is available in the environment.
+ * Checks if a Gemini API key is available, either unlocked at runtime or in the environment.
  */
 export const isApiKeyAvailable = (): boolean => {
   return !!getApiKey();
 };
 
+/**
+ * Checks that a key is accepted by looking up a model's metadata, which costs no tokens.
+ * @param apiKey The key to check.
+ * @param modelName A model the key should have access to.
+ * @throws FitUpError, e.g. `invalidApiKey` if the key is rejected.
+ */
+export const validateApiKey = async (apiKey: string, modelName: string, signal?: AbortSignal): Promise<void> => {
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+        await ai.models.get({ model: modelName, config: { abortSignal: signal } });
+    } catch (e) {
+        throw toFitUpError(e, 'invalidApiKey');
+    }
+};
+
 /**
  * Initializes and returns a GoogleGenAI instance.
  * Throws an error if the API key is missing.
@@ -43,8 +75,7 @@ export const isApiKeyAvailable = (): boolean => {
 const getAi = () => {
   const apiKey = getApiKey();
   if (!apiKey) {
-    // This error message key will be used by the UI to show a localized message.
-    throw new Error('apiKeyMissing');
+    throw new FitUpError('apiKeyMissing');
   }
   return new GoogleGenAI({ apiKey });
 };
@@ -58,7 +89,7 @@ const base64ToGeminiPart = (base64: string) => {
     const match = base64.match(/^data:(image\/(?:png|jpeg|webp));base64,(.*)$/);
     if (!match) {
         console.error('Invalid base64 image format provided to geminiService.');
-        throw new Error('imageProcessingError');
+        throw new FitUpError('invalidImage');
     }
     return {
         inlineData: {
@@ -68,15 +99,157 @@ const base64ToGeminiPart = (base64: string) => {
     };
 };
 
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/**
+ * Throws a `safetyBlocked` error if the prompt or the first candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+        throw new FitUpError('safetyBlocked', { providerDetail: String(blockReason ?? finishReason) });
+    }
+};
+
+let usageRecorder: ((record: UsageRecord) => void) | null = null;
+
+/**
+ * Registers a listener that receives a usage record for every model call, successful or not.
+ * Pass null to stop recording.
+ */
+export const setUsageRecorder = (recorder: ((record: UsageRecord) => void) | null) => {
+    usageRecorder = recorder;
+};
+
+/**
+ * Passes on a usage record of a call made elsewhere, e.g. by the server proxy, to the usage recorder.
+ */
+export const recordUsage = (record: UsageRecord) => {
+    usageRecorder?.(record);
+};
+
+/**
+ * Calls `generateContent` and reports the call's token usage, latency and outcome to the usage recorder.
+ */
+const generateContent = async (ai: GoogleGenAI, kind: UsageKind, params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+    const startedAt = Date.now();
+    const record = (outcome: UsageOutcome, response?: GenerateContentResponse) => {
+        const usage = response?.usageMetadata;
+        usageRecorder?.({
+            id: `${new Date(startedAt).toISOString()}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: startedAt,
+            model: params.model,
+            kind,
+            promptTokens: usage?.promptTokenCount ?? 0,
+            outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+            totalTokens: usage?.totalTokenCount ?? 0,
+            latencyMs: Date.now() - startedAt,
+            outcome,
+        });
+    };
+    try {
+        const response = await ai.models.generateContent(params);
+        record('success', response);
+        return response;
+    } catch (e) {
+        record(params.config?.abortSignal?.aborted ? 'cancelled' : 'error');
+        throw e;
+    }
+};
+
+/**
+ * Runs a Gemini call, converting every failure into a FitUpError and retrying
+ * the transient ones with exponential backoff.
+ * @param operation The request and response handling to run on each attempt.
+ * @param fallback The error code to use for failures that cannot be classified.
+ * @param label A short description of the call, used in logs.
+ * @param signal Cancels the in-flight request and any pending retries.
+ */
+const callGemini = <T>(operation: () => Promise<T>, fallback: FitUpErrorCode, label: string, signal?: AbortSignal): Promise<T> =>
+    withRetry(async () => {
+        try {
+            return await operation();
+        } catch (e) {
+            throw toFitUpError(e, fallback);
+        }
+    }, {
+        shouldRetry: isRetryableError,
+        signal,
+        onRetry: (attempt, error, delayMs) => console.warn(`${label} failed, retry ${attempt} in ${Math.round(delayMs)}ms:`, error),
+    });
+
+/**
+ * Response schema for a normalized bounding box.
+ */
+const boxSchema = (description: string) => ({
+    type: Type.OBJECT,
+    description,
+    properties: {
+        x: { type: Type.NUMBER, description: "Top-left corner's X coordinate (0-1)." },
+        y: { type: Type.NUMBER, description: "Top-left corner's Y coordinate (0-1)." },
+        width: { type: Type.NUMBER, description: "Box width (0-1)." },
+        height: { type: Type.NUMBER, description: "Box height (0-1)." },
+    },
+    required: ['x', 'y', 'width', 'height'],
+});
+
+const regionSchema = (region: BodyRegion) => ({
+    type: Type.OBJECT,
+    properties: {
+        box: boxSchema(`The bounding box for the person's ${region}.`),
+        visible: { type: Type.BOOLEAN, description: `Whether the ${region} is visible, false if cut off by the frame or hidden.` },
+    },
+    required: ['box', 'visible'],
+});
+
+const isBoundingBox = (box: any): box is BoundingBox =>
+    !!box && typeof box.x === 'number' &&
+    typeof box.y === 'number' &&
+    typeof box.width === 'number' &&
+    typeof box.height === 'number';
+
+/**
+ * Keeps only the well-formed body regions of a detection response.
+ */
+const parseRegions = (regions: any): DetectedPerson['regions'] => {
+    if (!regions || typeof regions !== 'object') {
+        return undefined;
+    }
+    return Object.fromEntries(BODY_REGIONS
+        .filter(region => isBoundingBox(regions[region]?.box) && typeof regions[region].visible === 'boolean')
+        .map(region => [region, { box: regions[region].box, visible: regions[region].visible }]));
+};
+
+/**
+ * Keeps only the well-formed descriptive attributes of a detected person.
+ */
+const parseAttributes = (person: any): Pick<DetectedPerson, 'description' | 'clothing' | 'pose'> => ({
+    description: typeof person.description === 'string' && person.description.trim() ? person.description.trim() : undefined,
+    clothing: Array.isArray(person.clothing) ? person.clothing.filter((item: unknown) => typeof item === 'string' && item.trim()) : undefined,
+    pose: PERSON_POSES.includes(person.pose) ? person.pose : undefined,
+});
+
 /**
  * Detects people in an image using the Gemini API.
  * @param imageBase64 The base64 encoded image.
  * @param modelName The name of the detection model to use.
+ * @param prompt The detection instruction; defaults to the built-in English template.
+ * @param signal Optional signal to cancel the request.
  * @returns A promise that resolves to an array of detected people.
  */
 export const detectPeopleInImage = async (
     imageBase64: string,
-    modelName: string
+    modelName: string,
+    prompt: string = DEFAULT_PROMPT_TEMPLATES.en.detection,
+    signal?: AbortSignal
 ): Promise<DetectedPerson[]> => {
     const ai = getAi();
     const imagePart = base64ToGeminiPart(imageBase64);
@@ -94,19 +267,29 @@ export const detectPeopleInImage = async (
                             type: Type.STRING,
                             description: 'A unique identifier for the person, e.g., "Person 1".'
                         },
-                        box: {
+                        box: boxSchema('The bounding box for the person, with normalized coordinates.'),
+                        regions: {
                             type: Type.OBJECT,
-                            description: 'The bounding box for the person, with normalized coordinates.',
-                            properties: {
-                                x: { type: Type.NUMBER, description: "Top-left corner's X coordinate (0-1)." },
-                                y: { type: Type.NUMBER, description: "Top-left corner's Y coordinate (0-1)." },
-                                width: { type: Type.NUMBER, description: "Box width (0-1)." },
-                                height: { type: Type.NUMBER, description: "Box height (0-1)." },
-                            },
-                            required: ['x', 'y', 'width', 'height'],
+                            description: "Boxes for the person's body regions, with normalized coordinates.",
+                            properties: Object.fromEntries(BODY_REGIONS.map(region => [region, regionSchema(region)])),
+                            required: [...BODY_REGIONS],
+                        },
+                        description: {
+                            type: Type.STRING,
+                            description: 'A short description that tells the person apart from the others, e.g., "woman in red coat, left".',
+                        },
+                        clothing: {
+                            type: Type.ARRAY,
+                            description: 'The clothing items the person is wearing now, e.g., "red wool coat".',
+                            items: { type: Type.STRING },
+                        },
+                        pose: {
+                            type: Type.STRING,
+                            enum: [...PERSON_POSES],
+                            description: 'The rough pose; sideOn means turned sideways to the camera.',
                         },
                     },
-                    required: ['id', 'box'],
+                    required: ['id', 'box', 'regions', 'description', 'clothing', 'pose'],
                 },
             },
         },
@@ -114,121 +297,396 @@ export const detectPeopleInImage = async (
     };
 
     try {
-        const response = await ai.models.generateContent({
-            model: modelName,
-            contents: {
-                parts: [
-                    imagePart,
-                    { text: 'Detect all people in this image. For each person, assign a unique ID like "Person 1", "Person 2", etc., and provide their bounding box coordinates (x, y, width, height) as normalized values between 0 and 1.' }
-                ],
-            },
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema,
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'detection', {
+                model: modelName,
+                contents: {
+                    parts: [
+                        imagePart,
+                        { text: prompt }
+                    ],
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+
+            const text = response.text?.trim();
+            if (!text) {
+                 return [];
+            }
+            const json = JSON.parse(text);
+
+            if (!json.people || !Array.isArray(json.people)) {
+                return [];
+            }
+
+            return json.people
+                .filter((p: any) => p && typeof p.id === 'string' && isBoundingBox(p.box))
+                .map((p: any): DetectedPerson => ({ id: p.id, box: p.box, regions: parseRegions(p.regions), ...parseAttributes(p) }));
+        }, 'detectionFailed', 'Person detection', signal);
+    } catch (e) {
+        console.error('Error detecting people:', e);
+        throw e;
+    }
+};
+
+/**
+ * Detects garments and accessories in a source image using the Gemini API.
+ * Items with a category outside `GARMENT_CATEGORIES` are dropped.
+ * @param imageBase64 The base64 encoded image.
+ * @param modelName The name of the detection model to use.
+ * @param prompt The detection instruction; defaults to the built-in English template.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to an array of detected garments.
+ */
+export const detectGarmentsInImage = async (
+    imageBase64: string,
+    modelName: string,
+    prompt: string = DEFAULT_PROMPT_TEMPLATES.en.garmentDetection,
+    signal?: AbortSignal
+): Promise<DetectedGarment[]> => {
+    const ai = getAi();
+    const imagePart = base64ToGeminiPart(imageBase64);
+
+    const responseSchema = {
+        type: Type.OBJECT,
+        properties: {
+            garments: {
+                type: Type.ARRAY,
+                description: 'An array of all garments and accessories found in the image.',
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        id: {
+                            type: Type.STRING,
+                            description: 'A unique identifier for the garment, e.g., "Garment 1".'
+                        },
+                        box: boxSchema('The bounding box for the garment, with normalized coordinates.'),
+                        category: {
+                            type: Type.STRING,
+                            format: 'enum',
+                            enum: [...GARMENT_CATEGORIES],
+                            description: 'The kind of garment.',
+                        },
+                        color: { type: Type.STRING, description: 'The main colour of the garment, e.g., "navy".' },
+                        description: { type: Type.STRING, description: 'A short description, e.g., "denim jacket".' },
+                    },
+                    required: ['id', 'box', 'category', 'color', 'description'],
+                },
             },
-        });
+        },
+        required: ['garments'],
+    };
 
-        const text = response.text?.trim();
-        if (!text) {
-             return [];
-        }
-        const json = JSON.parse(text);
+    try {
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'detection', {
+                model: modelName,
+                contents: {
+                    parts: [
+                        imagePart,
+                        { text: prompt }
+                    ],
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
 
-        if (!json.people || !Array.isArray(json.people)) {
-            return [];
-        }
+            const text = response.text?.trim();
+            if (!text) {
+                return [];
+            }
+            const json = JSON.parse(text);
 
-        return json.people.filter((p: any): p is DetectedPerson =>
-            p && typeof p.id === 'string' &&
-            p.box && typeof p.box.x === 'number' &&
-            typeof p.box.y === 'number' &&
-            typeof p.box.width === 'number' &&
-            typeof p.box.height === 'number'
-        );
+            if (!json.garments || !Array.isArray(json.garments)) {
+                return [];
+            }
 
+            return json.garments.filter((g: any): g is DetectedGarment =>
+                g && typeof g.id === 'string' && isBoundingBox(g.box) &&
+                GARMENT_CATEGORIES.includes(g.category) &&
+                typeof g.color === 'string' &&
+                typeof g.description === 'string'
+            );
+        }, 'detectionFailed', 'Garment detection', signal);
     } catch (e) {
-        console.error('Error detecting people:', e);
-        if (e instanceof Error && (e.message.includes('429') || e.message.includes('quota'))) {
-             throw new Error('apiQuotaExceededError');
+        console.error('Error detecting garments:', e);
+        throw e;
+    }
+};
+
+/**
+ * Returns the first inline image of the response as a data URL.
+ * Throws a retryable `noImageReturned` error when the model answered without an image.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+    const parts = response.candidates?.[0]?.content?.parts;
+    if (parts) {
+        for (const part of parts) {
+            if (part.inlineData?.data && part.inlineData?.mimeType) {
+                const base64ImageBytes = part.inlineData.data;
+                const mimeType = part.inlineData.mimeType;
+                return `data:${mimeType};base64,${base64ImageBytes}`;
+            }
         }
-        throw new Error('detectionFailedError');
     }
+    throw new FitUpError('noImageReturned', { providerDetail: response.candidates?.[0]?.finishReason });
 };
 
 /**
  * Generates a virtual try-on image using the Gemini API.
- * @param targetImageBase64 Base64 of the image with the person.
- * @param personBox Bounding box of the person in the target image.
- * @param sourceImageBase64 Base64 of the image with the garment.
- * @param garmentBox Bounding box of the garment in the source image.
- * @param language The language for the prompt.
+ * All garments are applied to the person in a single request. The target image is always sent
+ * first, followed by each distinct source image once, so garments that share a photo share a part.
+ * A garment's mask, if any, gets a part of its own right after the garment is first mentioned.
+ * A custom background image, if any, is sent last.
+ * @param request The target image, person box and garments to put on.
  * @param modelName The name of the generation model to use.
+ * @param signal Optional signal to cancel the request.
  * @returns A promise that resolves to the base64 data URL of the generated image.
  */
 export const generateVirtualTryOnImage = async (
-    targetImageBase64: string,
-    personBox: BoundingBox,
-    sourceImageBase64: string,
-    garmentBox: BoundingBox,
-    language: 'ko' | 'en',
-    modelName: string
+    request: TryOnRequest,
+    modelName: string,
+    signal?: AbortSignal
 ): Promise<string> => {
     const ai = getAi();
+    const { targetImage, personBox, garments, language } = request;
+    const background = request.background ?? { type: 'preserve' };
 
-    const targetImagePart = base64ToGeminiPart(targetImageBase64);
-    const sourceImagePart = base64ToGeminiPart(sourceImageBase64);
-    
-    const personBoxStr = `(x: ${personBox.x.toFixed(3)}, y: ${personBox.y.toFixed(3)}, width: ${personBox.width.toFixed(3)}, height: ${personBox.height.toFixed(3)})`;
-    const garmentBoxStr = `(x: ${garmentBox.x.toFixed(3)}, y: ${garmentBox.y.toFixed(3)}, width: ${garmentBox.width.toFixed(3)}, height: ${garmentBox.height.toFixed(3)})`;
-
-    const prompt = language === 'ko' ?
-        `가상 피팅을 수행해 주세요.
-- 첫 번째(타겟) 이미지에서 이 경계 상자 ${personBoxStr} 안에 있는 사람을 찾습니다.
-- 두 번째(소스) 이미지에서 이 경계 상자 ${garmentBoxStr} 안에 있는 의류를 찾습니다.
-- 소스 이미지의 의류를 타겟 이미지의 사람에게 입혀주세요.
-- 결과 이미지는 조명, 그림자, 옷주름 등이 자연스럽게 표현되어야 합니다.
-- 타겟 이미지의 배경과 사람의 포즈는 그대로 유지해주세요. 결과물은 반드시 이미지여야 합니다.`
-        :
-        `Perform a virtual try-on.
-- Find the person in the first (target) image within this bounding box: ${personBoxStr}.
-- Find the garment in the second (source) image within this bounding box: ${garmentBoxStr}.
-- Place the garment from the source image onto the person in the target image.
-- The resulting image must be highly realistic, with natural lighting, shadows, and clothing folds.
-- Preserve the background and the person's pose from the target image. The output must be an image.`;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: modelName,
-            contents: {
-                parts: [
-                    targetImagePart,
-                    sourceImagePart,
-                    { text: prompt },
-                ]
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-        
-        const parts = response.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData?.data && part.inlineData?.mimeType) {
-                    const base64ImageBytes = part.inlineData.data;
-                    const mimeType = part.inlineData.mimeType;
-                    return `data:${mimeType};base64,${base64ImageBytes}`;
-                }
-            }
+    const images = [targetImage];
+    const promptGarments: PromptGarment[] = garments.map(garment => {
+        let imageIndex = images.indexOf(garment.sourceImage);
+        if (imageIndex === -1) {
+            images.push(garment.sourceImage);
+            imageIndex = images.length - 1;
+        }
+        if (!garment.mask) {
+            return { imageNumber: imageIndex + 1, box: garment.box, category: garment.category };
         }
-        
-        throw new Error('generationFailedNoImage');
+        images.push(garment.mask);
+        return { imageNumber: imageIndex + 1, box: garment.box, category: garment.category, maskImageNumber: images.length };
+    });
+    if (background.type === 'custom') {
+        images.push(background.image);
+    }
 
+    const imageParts = images.map(base64ToGeminiPart);
+    const templates = request.promptTemplates ?? DEFAULT_PROMPT_TEMPLATES[language];
+    const prompt = buildTryOnPrompt(
+        templates,
+        language,
+        personBox,
+        promptGarments,
+        request.options ?? DEFAULT_GENERATION_OPTIONS,
+        background,
+        images.length,
+        request.currentClothing
+    );
+
+    try {
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'generation', {
+                model: modelName,
+                contents: {
+                    parts: [
+                        ...imageParts,
+                        { text: prompt },
+                    ]
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+            return extractImage(response);
+        }, 'generationFailed', 'Virtual try-on generation', signal);
     } catch (e) {
         console.error('Error generating virtual try-on image:', e);
-        if (e instanceof Error && (e.message.includes('429') || e.message.includes('quota'))) {
-             throw new Error('apiQuotaExceededError');
-        }
-        throw new Error('generationFailedError');
+        throw e;
+    }
+};
+
+/**
+ * Replaces the background of an existing result without redoing the try-on.
+ * @param imageBase64 The result image to edit.
+ * @param background The new background. A custom image is sent as the second image part.
+ * @param language The language for the prompt.
+ * @param modelName The name of the generation model to use.
+ * @param template The background replacement template; defaults to the built-in one for `language`.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the base64 data URL of the edited image.
+ */
+export const replaceBackground = async (
+    imageBase64: string,
+    background: BackgroundMode,
+    language: Language,
+    modelName: string,
+    template: string = DEFAULT_PROMPT_TEMPLATES[language].backgroundReplace,
+    signal?: AbortSignal
+): Promise<string> => {
+    const ai = getAi();
+    const images = background.type === 'custom' ? [imageBase64, background.image] : [imageBase64];
+    const prompt = renderPromptTemplate(template, {
+        background: describeBackground(background, language, images.length),
+    });
+
+    try {
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'generation', {
+                model: modelName,
+                contents: {
+                    parts: [
+                        ...images.map(base64ToGeminiPart),
+                        { text: prompt },
+                    ]
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+            return extractImage(response);
+        }, 'generationFailed', 'Background replacement', signal);
+    } catch (e) {
+        console.error('Error replacing background:', e);
+        throw e;
+    }
+};
+
+/**
+ * Applies a follow-up edit to a result as a multi-turn conversation: the original result and the
+ * first instruction open the conversation, each earlier edit is replayed as a model turn followed by
+ * the next instruction, so the model sees the whole chain of edits that led to the current version.
+ * @param request The original result, earlier edits and the new instruction.
+ * @param modelName The name of the generation model to use.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the base64 data URL of the edited image.
+ */
+export const refineTryOnImage = async (
+    request: RefinementRequest,
+    modelName: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const ai = getAi();
+    const template = request.template ?? DEFAULT_PROMPT_TEMPLATES[request.language].refine;
+    const instructionPart = (instruction: string) => ({ text: renderPromptTemplate(template, { instruction }) });
+    const instructions = [...request.turns.map(turn => turn.instruction), request.instruction];
+
+    const contents: Content[] = [
+        { role: 'user', parts: [base64ToGeminiPart(request.baseImage), instructionPart(instructions[0])] },
+    ];
+    request.turns.forEach((turn, index) => {
+        contents.push({ role: 'model', parts: [base64ToGeminiPart(turn.image)] });
+        contents.push({ role: 'user', parts: [instructionPart(instructions[index + 1])] });
+    });
+
+    try {
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'generation', {
+                model: modelName,
+                contents,
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+            return extractImage(response);
+        }, 'generationFailed', 'Result refinement', signal);
+    } catch (e) {
+        console.error('Error refining try-on image:', e);
+        throw e;
+    }
+};
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, Math.round(score)));
+
+/**
+ * Asks the model to grade a generated result against its inputs.
+ * Images are sent in the order target, garment crops, result.
+ * @param request The images to compare and the box of the person who should be dressed.
+ * @param modelName The name of the detection model to use.
+ * @param template The verification template; defaults to the built-in English one.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the scores and verdict.
+ */
+export const verifyTryOnResult = async (
+    request: VerificationRequest,
+    modelName: string,
+    template: string = DEFAULT_PROMPT_TEMPLATES.en.verification,
+    signal?: AbortSignal
+): Promise<VerificationResult> => {
+    const ai = getAi();
+    const images = [request.targetImage, ...request.garmentImages, request.resultImage];
+    const prompt = renderPromptTemplate(template, { personBox: formatBox(request.personBox) });
+
+    const scoreSchema = (description: string) => ({ type: Type.NUMBER, description: `${description} (0-100).` });
+    const responseSchema = {
+        type: Type.OBJECT,
+        properties: {
+            garmentFidelity: scoreSchema('How faithfully the garments were transferred'),
+            identityPreservation: scoreSchema('How well the face and body of the person were preserved'),
+            backgroundPreservation: scoreSchema('How well the background was kept as intended'),
+            passed: { type: Type.BOOLEAN, description: 'Whether the result is acceptable overall.' },
+            notes: { type: Type.STRING, description: 'A one-sentence explanation of the verdict.' },
+        },
+        required: ['garmentFidelity', 'identityPreservation', 'backgroundPreservation', 'passed'],
+    };
+
+    try {
+        return await callGemini(async () => {
+            const response = await generateContent(ai, 'detection', {
+                model: modelName,
+                contents: {
+                    parts: [
+                        ...images.map(base64ToGeminiPart),
+                        { text: prompt },
+                    ],
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+
+            const json = JSON.parse(response.text?.trim() || '{}');
+            const scores = [json.garmentFidelity, json.identityPreservation, json.backgroundPreservation];
+            if (scores.some(score => typeof score !== 'number') || typeof json.passed !== 'boolean') {
+                throw new FitUpError('verificationFailed', { providerDetail: 'Incomplete verification response' });
+            }
+            return {
+                garmentFidelity: clampScore(json.garmentFidelity),
+                identityPreservation: clampScore(json.identityPreservation),
+                backgroundPreservation: clampScore(json.backgroundPreservation),
+                passed: json.passed,
+                notes: typeof json.notes === 'string' ? json.notes : undefined,
+            };
+        }, 'verificationFailed', 'Result verification', signal);
+    } catch (e) {
+        console.error('Error verifying try-on result:', e);
+        throw e;
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: TryOnProvider = {
+    id: 'gemini',
+    isAvailable: isApiKeyAvailable,
+    detectPeopleInImage,
+    detectGarmentsInImage,
+    generateVirtualTryOnImage,
+    replaceBackground,
+    refineTryOnImage,
+    verifyTryOnResult,
+};
@@ -0,0 +1,61 @@
+// src/services/groupService.ts
+
+import { TryOnRequest } from '../types';
+import type { TryOnProvider } from './tryOnProvider';
+import { FitUpError } from './errors';
+import { loadImage, resizeImage } from '../utils/fileUtils';
+
+/**
+ * How far a step's aspect ratio may drift from the photo's and still be scaled back onto it.
+ * Models snap their output to a few standard ratios, which are at most about 12% apart; anything
+ * further off was reframed and the boxes no longer point at the same people.
+ */
+const MAX_ASPECT_RATIO_DRIFT = 0.25;
+
+/**
+ * Wraps a provider so that each generation dresses several people of the same photo, one after
+ * another: the first request runs as usual and every follow-up edits the previous step's result.
+ * Each step only changes the person in its box, so everyone else stays as they were. Candidates,
+ * retries and usage tracking keep working because the chain looks like a single generation.
+ *
+ * The follow-up boxes only point at the right people while every step keeps the photo's framing,
+ * so each step's result is scaled back to the photo's size before the next step sees it. A result
+ * whose aspect ratio is far off was reframed, and the chain fails with `generationFailed` instead
+ * of dressing whoever ended up in the box.
+ * @param provider The provider to generate with.
+ * @param followUps Requests for the other people, in order. Their target image is replaced by the
+ * previous step's result, so their boxes have to be normalized to the first request's image.
+ */
+export const withFollowUpSteps = (provider: TryOnProvider, followUps: TryOnRequest[]): TryOnProvider => {
+    if (followUps.length === 0) {
+        return provider;
+    }
+    return {
+        ...provider,
+        generateVirtualTryOnImage: async (request, modelName, signal) => {
+            const { naturalWidth: width, naturalHeight: height } = await loadImage(request.targetImage);
+            const restoreFraming = async (image: string, step: number): Promise<string> => {
+                const output = await loadImage(image);
+                if (output.naturalWidth === width && output.naturalHeight === height) {
+                    return image;
+                }
+                const drift = Math.abs(output.naturalWidth / output.naturalHeight - width / height) / (width / height);
+                if (drift > MAX_ASPECT_RATIO_DRIFT) {
+                    throw new FitUpError('generationFailed', {
+                        providerDetail: `Step ${step} returned a ${output.naturalWidth}x${output.naturalHeight} image for a ${width}x${height} photo`,
+                    });
+                }
+                return resizeImage(image, width, height);
+            };
+
+            let image = await restoreFraming(await provider.generateVirtualTryOnImage(request, modelName, signal), 1);
+            for (const [index, step] of followUps.entries()) {
+                image = await restoreFraming(
+                    await provider.generateVirtualTryOnImage({ ...step, targetImage: image }, modelName, signal),
+                    index + 2
+                );
+            }
+            return image;
+        },
+    };
+};
@@ -0,0 +1,298 @@
+// src/services/mockProvider.ts
+
+import { BackgroundMode, BackgroundPreset, BoundingBox, DetectedGarment, DetectedPerson, GarmentCategory, Language, RefinementRequest, TryOnRequest, VerificationRequest, VerificationResult } from '../types';
+import { loadImage } from '../utils/fileUtils';
+import { sleep } from '../utils/retry';
+import type { TryOnProvider } from './tryOnProvider';
+import { FitUpError } from './errors';
+
+// Simulated latencies so the loading states of the flow are visible during demos.
+const DETECTION_DELAY_MS = 600;
+const GENERATION_DELAY_MS = 1200;
+
+/**
+ * Maps a box given as fractions of `outer` to image coordinates.
+ */
+const within = (outer: BoundingBox, inner: BoundingBox): BoundingBox => ({
+    x: outer.x + inner.x * outer.width,
+    y: outer.y + inner.y * outer.height,
+    width: inner.width * outer.width,
+    height: inner.height * outer.height,
+});
+
+const mockRegions = (box: BoundingBox, feetVisible: boolean): DetectedPerson['regions'] => ({
+    head: { box: within(box, { x: 0.3, y: 0, width: 0.4, height: 0.15 }), visible: true },
+    torso: { box: within(box, { x: 0.1, y: 0.15, width: 0.8, height: 0.4 }), visible: true },
+    legs: { box: within(box, { x: 0.2, y: 0.52, width: 0.6, height: 0.38 }), visible: true },
+    feet: { box: within(box, { x: 0.2, y: 0.88, width: 0.6, height: 0.12 }), visible: feetVisible },
+});
+
+/**
+ * Canned detection result. Two side-by-side people cover most demo photos well
+ * enough to walk through the selection step. The second person's feet are reported
+ * as cropped so the compatibility warning can be demoed too.
+ */
+const MOCK_PEOPLE: DetectedPerson[] = [
+    {
+        id: 'Person 1',
+        box: { x: 0.08, y: 0.1, width: 0.38, height: 0.85 },
+        description: 'person on the left',
+        clothing: ['white t-shirt', 'blue jeans', 'sneakers'],
+        pose: 'standing' as const,
+    },
+    {
+        id: 'Person 2',
+        box: { x: 0.54, y: 0.1, width: 0.38, height: 0.85 },
+        description: 'person on the right',
+        clothing: ['grey hoodie', 'black trousers'],
+        pose: 'sideOn' as const,
+    },
+].map((person, index) => ({ ...person, regions: mockRegions(person.box, index === 0) }));
+
+/**
+ * Returns the same two people for every image.
+ * @returns A promise that resolves to a copy of the canned detection result.
+ */
+export const detectPeopleInImage = async (
+    _imageBase64: string,
+    _modelName: string,
+    _prompt?: string,
+    signal?: AbortSignal
+): Promise<DetectedPerson[]> => {
+    await sleep(DETECTION_DELAY_MS, signal);
+    return structuredClone(MOCK_PEOPLE);
+};
+
+/**
+ * Canned garment detection result: an outfit laid out like a single full-body photo.
+ */
+const MOCK_GARMENTS: DetectedGarment[] = [
+    { id: 'Garment 1', box: { x: 0.3, y: 0.2, width: 0.4, height: 0.32 }, category: 'top', color: 'white', description: 'crew-neck t-shirt' },
+    { id: 'Garment 2', box: { x: 0.32, y: 0.5, width: 0.36, height: 0.36 }, category: 'bottom', color: 'blue', description: 'straight-leg jeans' },
+    { id: 'Garment 3', box: { x: 0.34, y: 0.86, width: 0.32, height: 0.1 }, category: 'shoes', color: 'black', description: 'leather sneakers' },
+];
+
+/**
+ * Returns the same outfit for every image.
+ * @returns A promise that resolves to a copy of the canned detection result.
+ */
+export const detectGarmentsInImage = async (
+    _imageBase64: string,
+    _modelName: string,
+    _prompt?: string,
+    signal?: AbortSignal
+): Promise<DetectedGarment[]> => {
+    await sleep(DETECTION_DELAY_MS, signal);
+    return MOCK_GARMENTS.map(garment => ({ ...garment, box: { ...garment.box } }));
+};
+
+/**
+ * Where each garment category is pasted, as fractions of the person box.
+ */
+const CATEGORY_REGIONS: Record<GarmentCategory, BoundingBox> = {
+    accessory: { x: 0.3, y: 0.02, width: 0.4, height: 0.13 },
+    outerwear: { x: 0.08, y: 0.16, width: 0.84, height: 0.42 },
+    top: { x: 0.15, y: 0.2, width: 0.7, height: 0.35 },
+    bottom: { x: 0.2, y: 0.52, width: 0.6, height: 0.36 },
+    shoes: { x: 0.2, y: 0.88, width: 0.6, height: 0.12 },
+};
+
+// Paint order so outer layers end up on top.
+const CATEGORY_LAYER_ORDER: GarmentCategory[] = ['bottom', 'shoes', 'top', 'outerwear', 'accessory'];
+
+/**
+ * Builds a placeholder try-on result by pasting each garment crop over the matching
+ * body region of the selected person in the target image. Without a DOM (e.g. behind the
+ * server proxy) there is no canvas to composite on, so the target image is returned unchanged.
+ * @returns A promise that resolves to a PNG data URL of the composited image.
+ */
+export const generateVirtualTryOnImage = async (
+    request: TryOnRequest,
+    _modelName: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await sleep(GENERATION_DELAY_MS, signal);
+
+    const { targetImage, personBox, garments } = request;
+    if (typeof document === 'undefined') {
+        return targetImage;
+    }
+    const target = await loadImage(targetImage);
+    const sources = await Promise.all(garments.map(garment => loadImage(garment.sourceImage)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = target.naturalWidth;
+    canvas.height = target.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new FitUpError('generationFailed');
+    }
+    context.drawImage(target, 0, 0);
+
+    const person = {
+        x: personBox.x * canvas.width,
+        y: personBox.y * canvas.height,
+        width: personBox.width * canvas.width,
+        height: personBox.height * canvas.height,
+    };
+
+    const layered = garments
+        .map((garment, index) => ({ garment, source: sources[index] }))
+        .sort((a, b) => CATEGORY_LAYER_ORDER.indexOf(a.garment.category) - CATEGORY_LAYER_ORDER.indexOf(b.garment.category));
+
+    context.globalAlpha = 0.85;
+    layered.forEach(({ garment, source }) => {
+        const region = CATEGORY_REGIONS[garment.category];
+        context.drawImage(
+            source,
+            garment.box.x * source.naturalWidth,
+            garment.box.y * source.naturalHeight,
+            garment.box.width * source.naturalWidth,
+            garment.box.height * source.naturalHeight,
+            person.x + person.width * region.x,
+            person.y + person.height * region.y,
+            person.width * region.width,
+            person.height * region.height
+        );
+    });
+    context.globalAlpha = 1;
+
+    context.strokeStyle = 'rgba(34, 197, 94, 0.9)';
+    context.lineWidth = Math.max(2, canvas.width / 300);
+    context.strokeRect(person.x, person.y, person.width, person.height);
+
+    const fontSize = Math.max(14, Math.round(canvas.width / 30));
+    context.font = `bold ${fontSize}px sans-serif`;
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, 0, context.measureText('MOCK').width + fontSize, fontSize * 1.6);
+    context.fillStyle = 'white';
+    context.fillText('MOCK', fontSize / 2, fontSize * 1.2);
+
+    return canvas.toDataURL('image/png');
+};
+
+// Flat backdrop colours standing in for generated scenes.
+const BACKDROP_COLORS: Record<'studio' | BackgroundPreset, string> = {
+    studio: '#e5e7eb',
+    street: '#64748b',
+    beach: '#fcd34d',
+    office: '#d6d3d1',
+};
+
+/**
+ * Builds a placeholder background swap by shrinking the image onto a flat backdrop
+ * (or onto the custom background image). Without a DOM the image is returned unchanged.
+ * @returns A promise that resolves to a PNG data URL of the composited image.
+ */
+export const replaceBackground = async (
+    imageBase64: string,
+    background: BackgroundMode,
+    _language: Language,
+    _modelName: string,
+    _template?: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await sleep(GENERATION_DELAY_MS, signal);
+
+    if (typeof document === 'undefined') {
+        return imageBase64;
+    }
+    const image = await loadImage(imageBase64);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new FitUpError('generationFailed');
+    }
+
+    if (background.type === 'custom') {
+        context.drawImage(await loadImage(background.image), 0, 0, canvas.width, canvas.height);
+    } else if (background.type !== 'preserve') {
+        context.fillStyle = BACKDROP_COLORS[background.type === 'preset' ? background.preset : 'studio'];
+        context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    const inset = background.type === 'preserve' ? 0 : 0.1;
+    context.drawImage(
+        image,
+        canvas.width * inset,
+        canvas.height * inset,
+        canvas.width * (1 - 2 * inset),
+        canvas.height * (1 - 2 * inset)
+    );
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Stamps the instruction onto the latest version instead of editing it, so each step of a
+ * refinement conversation is visibly different. Without a DOM the latest version is returned unchanged.
+ * @returns A promise that resolves to a PNG data URL of the stamped image.
+ */
+export const refineTryOnImage = async (
+    request: RefinementRequest,
+    _modelName: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await sleep(GENERATION_DELAY_MS, signal);
+
+    const latest = request.turns.length > 0 ? request.turns[request.turns.length - 1].image : request.baseImage;
+    if (typeof document === 'undefined') {
+        return latest;
+    }
+    const image = await loadImage(latest);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new FitUpError('generationFailed');
+    }
+    context.drawImage(image, 0, 0);
+
+    // One caption strip per edit, stacked upwards from the bottom edge.
+    const fontSize = Math.max(14, Math.round(canvas.width / 40));
+    const stripHeight = fontSize * 1.8;
+    const y = canvas.height - stripHeight * (request.turns.length + 1);
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, y, canvas.width, stripHeight);
+    context.fillStyle = 'white';
+    context.font = `${fontSize}px sans-serif`;
+    context.fillText(`MOCK EDIT: ${request.instruction}`, fontSize / 2, y + stripHeight * 0.65, canvas.width - fontSize);
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Grades a result without looking at it. Scores are derived from the image data so they stay
+ * stable for a given result, and roughly one in eight results falls below the flagging threshold.
+ * @returns A promise that resolves to the canned verdict.
+ */
+export const verifyTryOnResult = async (
+    request: VerificationRequest,
+    _modelName: string,
+    _template?: string,
+    signal?: AbortSignal
+): Promise<VerificationResult> => {
+    await sleep(DETECTION_DELAY_MS, signal);
+    const garmentFidelity = 55 + (request.resultImage.length % 41);
+    return {
+        garmentFidelity,
+        identityPreservation: 90,
+        backgroundPreservation: 85,
+        passed: garmentFidelity >= 60,
+        notes: 'Mock verification.',
+    };
+};
+
+export const mockProvider: TryOnProvider = {
+    id: 'mock',
+    isAvailable: () => true,
+    detectPeopleInImage,
+    detectGarmentsInImage,
+    generateVirtualTryOnImage,
+    replaceBackground,
+    refineTryOnImage,
+    verifyTryOnResult,
+};
@@ -0,0 +1,251 @@
+// src/services/promptTemplates.ts
+
+import { BackgroundMode, BackgroundPreset, BoundingBox, GarmentCategory, GenerationOptions, Language, PromptTemplateKind, PromptTemplates } from '../types';
+
+/**
+ * Built-in templates. `tryOnGarment` is rendered once per garment and the lines are
+ * joined into the `{{garments}}` variable of the `tryOn` template.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<Language, PromptTemplates> = {
+    ko: {
+        detection: '이 이미지에서 모든 사람을 감지해 주세요. 각 사람에게 "Person 1", "Person 2"와 같은 고유 ID를 부여하고, 경계 상자 좌표(x, y, width, height)를 0과 1 사이의 정규화된 값으로 제공해 주세요. 또한 각 사람의 머리(head), 몸통(torso), 다리(legs), 발(feet) 영역의 경계 상자와, 해당 영역이 사진에 보이는지(프레임 밖으로 잘리거나 가려졌으면 false) 여부를 알려주세요. 각 사람을 다른 사람과 구별할 수 있는 짧은 한국어 설명(예: "빨간 코트를 입은 왼쪽 여성"), 현재 입고 있는 의류 목록(항목마다 짧은 한국어 설명), 그리고 대략적인 자세(standing, sitting, sideOn, other)도 제공해 주세요.',
+        garmentDetection: '이 이미지에서 입어볼 수 있는 모든 의류와 액세서리를 감지해 주세요. 각 항목에 "Garment 1", "Garment 2"와 같은 고유 ID를 부여하고, 경계 상자 좌표(x, y, width, height)를 0과 1 사이의 정규화된 값으로, 종류(top, bottom, outerwear, shoes, accessory), 주요 색상, 그리고 짧은 한국어 설명을 제공해 주세요.',
+        tryOn: `가상 피팅을 수행해 주세요.
+- 첫 번째(타겟) 이미지에서 이 경계 상자 {{personBox}} 안에 있는 사람을 찾습니다.
+- 다음 의류를 모두 한 번에 이 사람에게 입혀주세요:
+{{garments}}
+{{currentClothing}}
+{{options}}
+- 아우터는 상의 위에 입히는 등 의류를 자연스럽게 겹쳐 입히고, 각 의류가 덮는 부분의 옷만 교체해주세요.
+- 결과 이미지는 조명, 그림자, 옷주름 등이 자연스럽게 표현되어야 합니다.
+{{background}}
+- 이 사람만 바꾸고, 이미지 속 다른 사람들은 그대로 유지해주세요.
+- 타겟 이미지 속 사람의 포즈는 그대로 유지해주세요. 결과물은 반드시 이미지여야 합니다.`,
+        tryOnGarment: '  - {{imageNumber}}번째 이미지의 경계 상자 {{garmentBox}} 안에 있는 {{garmentCategory}}{{garmentMask}}',
+        backgroundReplace: `첫 번째 이미지 속 사람의 배경을 바꿔주세요.
+{{background}}
+- 사람의 얼굴, 헤어, 포즈, 의상은 전혀 바꾸지 마세요.
+- 새 배경에 맞게 사람의 조명과 그림자를 자연스럽게 조정해주세요. 결과물은 반드시 이미지여야 합니다.`,
+        verification: `가상 피팅 결과를 평가해 주세요.
+- 첫 번째 이미지는 원본 사진이며, 옷을 입혀야 할 사람은 경계 상자 {{personBox}} 안에 있습니다.
+- 마지막 이미지는 결과물이고, 그 사이의 이미지들은 입혀야 할 의류입니다.
+- 다음 항목을 각각 0에서 100 사이의 점수로 평가해 주세요: 의류가 색상, 패턴, 형태까지 정확히 옮겨졌는지(garmentFidelity), 같은 사람의 얼굴과 체형이 유지되었는지(identityPreservation), 배경이 의도대로 유지되었는지(backgroundPreservation).
+- 다른 사람에게 옷이 입혀졌거나 의류가 옮겨지지 않았다면 passed를 false로 해주세요. notes에는 판단 근거를 한 문장으로 적어주세요.`,
+        refine: `가장 최근 이미지를 다음과 같이 수정해 주세요: {{instruction}}
+- 요청한 부분만 바꾸고 사람의 얼굴, 포즈, 배경과 나머지 의상은 그대로 유지해주세요. 결과물은 반드시 이미지여야 합니다.`,
+    },
+    en: {
+        detection: 'Detect all people in this image. For each person, assign a unique ID like "Person 1", "Person 2", etc., and provide their bounding box coordinates (x, y, width, height) as normalized values between 0 and 1. Also provide a bounding box for each person\'s head, torso, legs and feet, and whether each region is visible (false if it is cut off by the frame or hidden). Also give a short description that tells each person apart from the others (e.g. "woman in red coat, left"), the clothing items they are wearing now (a short description per item), and their rough pose (standing, sitting, sideOn or other).',
+        garmentDetection: 'Detect every garment and accessory in this image that someone could try on. For each item, assign a unique ID like "Garment 1", "Garment 2", etc., and provide its bounding box coordinates (x, y, width, height) as normalized values between 0 and 1, its category (top, bottom, outerwear, shoes or accessory), its main colour, and a short description.',
+        tryOn: `Perform a virtual try-on.
+- Find the person in the first (target) image within this bounding box: {{personBox}}.
+- Dress this person in all of the following garments at once:
+{{garments}}
+{{currentClothing}}
+{{options}}
+- Layer the garments naturally (e.g. outerwear over tops) and only replace the clothing each garment covers.
+- The resulting image must be highly realistic, with natural lighting, shadows, and clothing folds.
+{{background}}
+- Change only this person; everyone else in the image must stay exactly as they are.
+- Preserve the person's pose from the target image. The output must be an image.`,
+        tryOnGarment: '  - The {{garmentCategory}} in image {{imageNumber}} within this bounding box: {{garmentBox}}{{garmentMask}}',
+        backgroundReplace: `Change the background behind the person in the first image.
+{{background}}
+- Do not change the person's face, hair, pose or clothing in any way.
+- Adjust the lighting and shadows on the person so they blend naturally into the new background. The output must be an image.`,
+        verification: `Evaluate a virtual try-on result.
+- The first image is the original photo; the person who should be dressed is within this bounding box: {{personBox}}.
+- The last image is the result, and the images in between are the garments that should have been put on.
+- Score each of the following from 0 to 100: whether the garments transferred faithfully, including colour, pattern and shape (garmentFidelity); whether it is still the same person with the same face and body (identityPreservation); and whether the background was kept as intended (backgroundPreservation).
+- Set passed to false if the wrong person was dressed or a garment did not transfer. Explain the verdict in one sentence in notes.`,
+        refine: `Edit the most recent image as follows: {{instruction}}
+- Change only what was asked and keep the person's face, pose, background and the rest of the outfit unchanged. The output must be an image.`,
+    },
+};
+
+/**
+ * Variables each template kind may reference, shown as help in the template editor.
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, string[]> = {
+    detection: [],
+    garmentDetection: [],
+    tryOn: ['personBox', 'garments', 'garmentCount', 'currentClothing', 'options', 'background'],
+    tryOnGarment: ['imageNumber', 'garmentBox', 'garmentCategory', 'garmentMask'],
+    backgroundReplace: ['background'],
+    verification: ['personBox'],
+    refine: ['instruction'],
+};
+
+const GARMENT_CATEGORY_NAMES: Record<Language, Record<GarmentCategory, string>> = {
+    ko: { top: '상의', bottom: '하의', outerwear: '아우터', shoes: '신발', accessory: '액세서리' },
+    en: { top: 'top', bottom: 'bottom', outerwear: 'outerwear', shoes: 'shoes', accessory: 'accessory' },
+};
+
+export const formatBox = (box: BoundingBox) =>
+    `(x: ${box.x.toFixed(3)}, y: ${box.y.toFixed(3)}, width: ${box.width.toFixed(3)}, height: ${box.height.toFixed(3)})`;
+
+const OPTION_PHRASES: Record<Language, {
+    fit: Record<Exclude<GenerationOptions['fit'], 'auto'>, string>;
+    tuck: Record<Exclude<GenerationOptions['tuck'], 'auto'>, string>;
+    sleeves: Record<Exclude<GenerationOptions['sleeves'], 'auto'>, string>;
+    preserveIdentity: string;
+    keepAccessories: string;
+}> = {
+    ko: {
+        fit: {
+            slim: '- 의류가 몸에 딱 맞는 슬림핏으로 보이게 해주세요.',
+            regular: '- 의류가 너무 끼지도 헐렁하지도 않은 레귤러핏으로 보이게 해주세요.',
+            oversized: '- 의류가 여유 있는 오버사이즈핏으로 보이게 해주세요.',
+        },
+        tuck: {
+            tucked: '- 상의를 하의 안으로 넣어 입혀주세요.',
+            untucked: '- 상의를 하의 밖으로 빼서 입혀주세요.',
+        },
+        sleeves: {
+            rolled: '- 소매를 팔뚝까지 걷어 올려주세요.',
+            down: '- 소매를 걷지 말고 끝까지 내려주세요.',
+        },
+        preserveIdentity: '- 사람의 얼굴, 이목구비, 헤어스타일과 머리 색을 타겟 이미지와 정확히 동일하게 유지해주세요.',
+        keepAccessories: '- 안경, 장신구, 가방, 모자, 시계 등 사람이 원래 착용한 액세서리는 그대로 유지해주세요.',
+    },
+    en: {
+        fit: {
+            slim: '- Make the garments fit slim and close to the body.',
+            regular: '- Make the garments a regular fit, neither tight nor loose.',
+            oversized: '- Make the garments a loose, oversized fit.',
+        },
+        tuck: {
+            tucked: '- Tuck the top into the bottoms.',
+            untucked: '- Leave the top untucked, worn over the bottoms.',
+        },
+        sleeves: {
+            rolled: '- Roll the sleeves up to the forearms.',
+            down: '- Keep the sleeves fully down, not rolled up.',
+        },
+        preserveIdentity: "- Strictly preserve the person's face, facial features, hairstyle and hair colour exactly as in the target image.",
+        keepAccessories: "- Keep the person's original accessories (glasses, jewellery, bags, hats, watches) unchanged.",
+    },
+};
+
+/**
+ * Turns generation options into prompt instructions, one per line. Options left on 'auto'
+ * or switched off produce no line.
+ */
+export const describeGenerationOptions = (options: GenerationOptions, language: Language): string => {
+    const phrases = OPTION_PHRASES[language];
+    const lines: string[] = [];
+    if (options.fit !== 'auto') lines.push(phrases.fit[options.fit]);
+    if (options.tuck !== 'auto') lines.push(phrases.tuck[options.tuck]);
+    if (options.sleeves !== 'auto') lines.push(phrases.sleeves[options.sleeves]);
+    if (options.preserveIdentity) lines.push(phrases.preserveIdentity);
+    if (options.keepAccessories) lines.push(phrases.keepAccessories);
+    return lines.join('\n');
+};
+
+const BACKGROUND_PHRASES: Record<Language, {
+    preserve: string;
+    studio: string;
+    preset: (scene: string) => string;
+    custom: (imageNumber: number) => string;
+    scenes: Record<BackgroundPreset, string>;
+}> = {
+    ko: {
+        preserve: '- 타겟 이미지의 배경은 그대로 유지해주세요.',
+        studio: '- 배경을 균일한 조명의 밝은 회색 단색 스튜디오 배경으로 바꿔주세요.',
+        preset: scene => `- 배경을 사실적인 ${scene}(으)로 바꿔주세요.`,
+        custom: imageNumber => `- 배경을 ${imageNumber}번째 이미지의 장면으로 바꿔주세요.`,
+        scenes: { street: '도시 거리', beach: '햇살 좋은 해변', office: '밝은 현대식 사무실' },
+    },
+    en: {
+        preserve: '- Preserve the background of the target image exactly.',
+        studio: '- Replace the background with a plain, evenly lit light-grey studio backdrop.',
+        preset: scene => `- Replace the background with a realistic ${scene}.`,
+        custom: imageNumber => `- Replace the background with the scene from image ${imageNumber}.`,
+        scenes: { street: 'city street', beach: 'sunny beach', office: 'bright modern office' },
+    },
+};
+
+/**
+ * Turns a background mode into a prompt instruction.
+ * @param imageNumber 1-based position of the custom background image among the image parts.
+ */
+export const describeBackground = (background: BackgroundMode, language: Language, imageNumber: number): string => {
+    const phrases = BACKGROUND_PHRASES[language];
+    switch (background.type) {
+        case 'studio':
+            return phrases.studio;
+        case 'preset':
+            return phrases.preset(phrases.scenes[background.preset]);
+        case 'custom':
+            return phrases.custom(imageNumber);
+        default:
+            return phrases.preserve;
+    }
+};
+
+/**
+ * Replaces `{{name}}` placeholders with the given values. Unknown placeholders are left as-is
+ * so typos stay visible in the preview. A line holding nothing but a placeholder whose value
+ * is empty is dropped, so optional sections do not leave blank lines behind.
+ */
+export const renderPromptTemplate = (template: string, variables: Record<string, string | number>): string =>
+    template
+        .split('\n')
+        .filter(line => {
+            const match = line.trim().match(/^\{\{(\w+)\}\}$/);
+            return !match || !(match[1] in variables) || String(variables[match[1]]) !== '';
+        })
+        .join('\n')
+        .replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+            name in variables ? String(variables[name]) : placeholder
+        );
+
+export interface PromptGarment {
+    /** 1-based position of the garment's source image among the image parts sent to the model. */
+    imageNumber: number;
+    box: BoundingBox;
+    category: GarmentCategory;
+    /** 1-based position of the garment's mask image, if it has one. */
+    maskImageNumber?: number;
+}
+
+const GARMENT_MASK_PHRASES: Record<Language, (imageNumber: number) => string> = {
+    ko: imageNumber => ` (${imageNumber}번째 이미지는 이 의류의 마스크이며, 흰색 부분만 해당 의류입니다)`,
+    en: imageNumber => ` (image ${imageNumber} is a mask of this garment; only the white area belongs to it)`,
+};
+
+const CURRENT_CLOTHING_PHRASES: Record<Language, (items: string) => string> = {
+    ko: items => `- 이 사람이 지금 입고 있는 옷: ${items}. 새 의류가 덮는 옷만 교체하고 나머지는 그대로 두세요.`,
+    en: items => `- The person is currently wearing: ${items}. Replace only the items the new garments cover and keep the rest.`,
+};
+
+/**
+ * Renders the full try-on prompt from a template set.
+ * @param currentClothing What the person wears now; the line is left out when empty.
+ */
+export const buildTryOnPrompt = (
+    templates: PromptTemplates,
+    language: Language,
+    personBox: BoundingBox,
+    garments: PromptGarment[],
+    options: GenerationOptions,
+    background: BackgroundMode,
+    backgroundImageNumber: number,
+    currentClothing: string[] = []
+): string => {
+    const garmentLines = garments.map(garment => renderPromptTemplate(templates.tryOnGarment, {
+        imageNumber: garment.imageNumber,
+        garmentBox: formatBox(garment.box),
+        garmentCategory: GARMENT_CATEGORY_NAMES[language][garment.category],
+        garmentMask: garment.maskImageNumber ? GARMENT_MASK_PHRASES[language](garment.maskImageNumber) : '',
+    })).join('\n');
+
+    return renderPromptTemplate(templates.tryOn, {
+        personBox: formatBox(personBox),
+        garments: garmentLines,
+        garmentCount: garments.length,
+        currentClothing: currentClothing.length > 0 ? CURRENT_CLOTHING_PHRASES[language](currentClothing.join(', ')) : '',
+        options: describeGenerationOptions(options, language),
+        background: describeBackground(background, language, backgroundImageNumber),
+    });
+};
@@ -0,0 +1,150 @@
+// src/services/proxyProvider.ts
+
+import {
+    BackgroundMode,
+    BackgroundProxyRequest,
+    DetectedGarment,
+    DetectedPerson,
+    DetectProxyRequest,
+    DetectProxyResponse,
+    GenerateProxyRequest,
+    GenerateProxyResponse,
+    ImageProxyResponse,
+    Language,
+    ProxyErrorResponse,
+    ProxyUsage,
+    RefinementRequest,
+    RefineProxyRequest,
+    TryOnRequest,
+    VerificationRequest,
+    VerificationResult,
+    VerifyProxyRequest,
+    VerifyProxyResponse,
+} from '../types';
+import type { TryOnProvider } from './tryOnProvider';
+import { FitUpError, isFitUpErrorCode, toFitUpError } from './errors';
+import { recordUsage } from './geminiService';
+
+export const DEFAULT_PROXY_BASE_URL = '/api';
+
+let proxyBaseUrl = DEFAULT_PROXY_BASE_URL;
+
+/**
+ * Sets where the server proxy is served, e.g. '/api' on the same deployment.
+ */
+export const setProxyBaseUrl = (url: string) => {
+    proxyBaseUrl = url.trim().replace(/\/+$/, '') || DEFAULT_PROXY_BASE_URL;
+};
+
+const recordProxyUsage = (body: ProxyUsage) => {
+    if (Array.isArray(body.usage)) body.usage.forEach(recordUsage);
+};
+
+/**
+ * Posts a JSON body to a proxy endpoint. Error responses are turned back into the FitUpError the
+ * server classified; the server already retried transient model errors, so nothing is retried here.
+ * The model calls the server reports in either case go to the usage recorder.
+ */
+const postJson = async <T extends ProxyUsage>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${proxyBaseUrl}/${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (e) {
+        throw toFitUpError(e, 'network');
+    }
+    if (!response.ok) {
+        const error: Partial<ProxyErrorResponse> = await response.json().catch(() => ({}));
+        recordProxyUsage(error);
+        throw new FitUpError(isFitUpErrorCode(error.code) ? error.code : 'serverError', {
+            status: response.status,
+            providerDetail: error.detail ?? response.statusText,
+            retryable: false,
+        });
+    }
+    const result: T = await response.json();
+    recordProxyUsage(result);
+    return result;
+};
+
+export const detectPeopleInImage = async (
+    imageBase64: string,
+    modelName: string,
+    prompt?: string,
+    signal?: AbortSignal
+): Promise<DetectedPerson[]> => {
+    const body: DetectProxyRequest = { target: 'people', image: imageBase64, modelName, prompt };
+    const result = await postJson<DetectProxyResponse>('detect', body, signal);
+    return result.people ?? [];
+};
+
+export const detectGarmentsInImage = async (
+    imageBase64: string,
+    modelName: string,
+    prompt?: string,
+    signal?: AbortSignal
+): Promise<DetectedGarment[]> => {
+    const body: DetectProxyRequest = { target: 'garments', image: imageBase64, modelName, prompt };
+    const result = await postJson<DetectProxyResponse>('detect', body, signal);
+    return result.garments ?? [];
+};
+
+export const generateVirtualTryOnImage = async (
+    request: TryOnRequest,
+    modelName: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const body: GenerateProxyRequest = { request, modelName };
+    const result = await postJson<GenerateProxyResponse>('generate', body, signal);
+    return result.image;
+};
+
+export const replaceBackground = async (
+    imageBase64: string,
+    background: BackgroundMode,
+    language: Language,
+    modelName: string,
+    template?: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const body: BackgroundProxyRequest = { image: imageBase64, background, language, modelName, template };
+    const result = await postJson<ImageProxyResponse>('background', body, signal);
+    return result.image;
+};
+
+export const refineTryOnImage = async (
+    request: RefinementRequest,
+    modelName: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const body: RefineProxyRequest = { request, modelName };
+    const result = await postJson<ImageProxyResponse>('refine', body, signal);
+    return result.image;
+};
+
+export const verifyTryOnResult = async (
+    request: VerificationRequest,
+    modelName: string,
+    template?: string,
+    signal?: AbortSignal
+): Promise<VerificationResult> => {
+    const body: VerifyProxyRequest = { request, modelName, template };
+    const result = await postJson<VerifyProxyResponse>('verify', body, signal);
+    return result.verification;
+};
+
+export const proxyProvider: TryOnProvider = {
+    id: 'proxy',
+    // The key lives on the server, so there is nothing to check up front.
+    isAvailable: () => true,
+    detectPeopleInImage,
+    detectGarmentsInImage,
+    generateVirtualTryOnImage,
+    replaceBackground,
+    refineTryOnImage,
+    verifyTryOnResult,
+};
@@ -0,0 +1,33 @@
+// src/services/routes.ts
+
+import { AppState } from '../types';
+
+/**
+ * The hash route of each step. Steps that only last while something runs have none and keep the
+ * route of the step they started from, so they never get a browser history entry of their own.
+ */
+const STEP_ROUTES: Record<AppState, string | null> = {
+    [AppState.IDLE]: '#/',
+    [AppState.PROCESSING_IMAGE]: null,
+    [AppState.ANALYZING_TARGET_IMAGE]: null,
+    [AppState.TARGET_PERSON_CHOOSING]: '#/people',
+    [AppState.TARGET_PERSON_SELECTED]: '#/outfit',
+    [AppState.SOURCE_TYPE_CHOSEN]: '#/garment/upload',
+    [AppState.SOURCE_IMAGE_UPLOADED]: '#/garment',
+    [AppState.GARMENT_SELECTED]: '#/garment/selected',
+    [AppState.GENERATING]: null,
+    [AppState.RESULT_READY]: '#/result',
+    [AppState.ERROR]: '#/error',
+    [AppState.BATCH]: '#/batch',
+};
+
+export const routeForStep = (step: AppState): string | null => STEP_ROUTES[step];
+
+/**
+ * The step a hash route stands for, or null if the route is unknown. An empty hash is the start page.
+ */
+export const stepForRoute = (hash: string): AppState | null => {
+    const route = hash === '' || hash === '#' ? '#/' : hash;
+    const match = Object.entries(STEP_ROUTES).find(([, stepRoute]) => stepRoute === route);
+    return match ? Number(match[0]) as AppState : null;
+};
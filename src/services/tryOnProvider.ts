@@ -0,0 +1,43 @@
+// src/services/tryOnProvider.ts
+
+import { BackgroundMode, DetectedGarment, DetectedPerson, Language, RefinementRequest, TryOnProviderId, TryOnRequest, VerificationRequest, VerificationResult } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { proxyProvider } from './proxyProvider';
+
+/**
+ * A backend capable of running the detection and try-on steps of the flow.
+ * Gemini is the production implementation; the proxy forwards to the same calls on a server
+ * (see `api/`), and the mock lets the whole flow run offline.
+ */
+export interface TryOnProvider {
+    id: TryOnProviderId;
+    /** Whether the provider can currently serve requests (e.g. an API key is configured). */
+    isAvailable: () => boolean;
+    detectPeopleInImage: (imageBase64: string, modelName: string, prompt?: string, signal?: AbortSignal) => Promise<DetectedPerson[]>;
+    detectGarmentsInImage: (imageBase64: string, modelName: string, prompt?: string, signal?: AbortSignal) => Promise<DetectedGarment[]>;
+    generateVirtualTryOnImage: (request: TryOnRequest, modelName: string, signal?: AbortSignal) => Promise<string>;
+    replaceBackground: (
+        imageBase64: string,
+        background: BackgroundMode,
+        language: Language,
+        modelName: string,
+        template?: string,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    refineTryOnImage: (request: RefinementRequest, modelName: string, signal?: AbortSignal) => Promise<string>;
+    verifyTryOnResult: (request: VerificationRequest, modelName: string, template?: string, signal?: AbortSignal) => Promise<VerificationResult>;
+}
+
+const providers: Record<TryOnProviderId, TryOnProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+    proxy: proxyProvider,
+};
+
+/**
+ * Returns the provider registered under the given id, falling back to Gemini.
+ */
+export const getTryOnProvider = (id: TryOnProviderId | undefined): TryOnProvider => {
+    return (id && providers[id]) || geminiProvider;
+};
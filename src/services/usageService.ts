@@ -0,0 +1,94 @@
+// src/services/usageService.ts
+
+import { AppSettings, ModelPrice, UsageRecord } from '../types';
+
+/**
+ * Published list prices in US dollars per million tokens, used until the user enters their own.
+ * Image output is billed as tokens too, so generation calls are priced the same way.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-flash-latest': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+};
+
+/**
+ * Estimated cost of a single call in US dollars. Models without a price cost nothing.
+ */
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice>): number => {
+    const price = prices[record.model];
+    if (!price) {
+        return 0;
+    }
+    return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * The local calendar day of a timestamp, as YYYY-MM-DD.
+ */
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export interface DailyUsage {
+    day: string;
+    calls: number;
+    /** Successful generation calls, i.e. images produced. */
+    generations: number;
+    errors: number;
+    totalTokens: number;
+    cost: number;
+}
+
+/**
+ * Totals the records per local day, newest day first.
+ */
+export const summarizeDailyUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>): DailyUsage[] => {
+    const days = new Map<string, DailyUsage>();
+    for (const record of records) {
+        const day = toDayKey(record.timestamp);
+        const totals = days.get(day) ?? { day, calls: 0, generations: 0, errors: 0, totalTokens: 0, cost: 0 };
+        totals.calls++;
+        if (record.kind === 'generation' && record.outcome === 'success') totals.generations++;
+        if (record.outcome === 'error') totals.errors++;
+        totals.totalTokens += record.totalTokens;
+        totals.cost += estimateCost(record, prices);
+        days.set(day, totals);
+    }
+    return [...days.values()].sort((a, b) => b.day.localeCompare(a.day));
+};
+
+export type SoftLimitKind = 'generations' | 'cost';
+
+export interface SoftLimitWarning {
+    kind: SoftLimitKind;
+    used: number;
+    limit: number;
+}
+
+/**
+ * Checks today's usage against the configured soft limits before a generation starts.
+ * @param upcomingGenerations How many generation calls the run about to start will make, e.g. one per
+ * person for every candidate of a group run.
+ * @returns One warning per limit the generation would reach or cross; empty if it may go ahead.
+ */
+export const checkSoftLimits = (
+    records: UsageRecord[],
+    settings: Pick<AppSettings, 'modelPrices' | 'dailyGenerationLimit' | 'dailyCostLimit'>,
+    upcomingGenerations: number
+): SoftLimitWarning[] => {
+    const today = summarizeDailyUsage(records.filter(record => toDayKey(record.timestamp) === toDayKey(Date.now())), settings.modelPrices)[0];
+    const warnings: SoftLimitWarning[] = [];
+    const generations = today?.generations ?? 0;
+    const cost = today?.cost ?? 0;
+    if (settings.dailyGenerationLimit > 0 && generations + upcomingGenerations > settings.dailyGenerationLimit) {
+        warnings.push({ kind: 'generations', used: generations, limit: settings.dailyGenerationLimit });
+    }
+    if (settings.dailyCostLimit > 0 && cost >= settings.dailyCostLimit) {
+        warnings.push({ kind: 'cost', used: cost, limit: settings.dailyCostLimit });
+    }
+    return warnings;
+};
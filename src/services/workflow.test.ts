@@ -0,0 +1,403 @@
+// src/services/workflow.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { AppState, DetectedPerson, GarmentSelection } from '../types';
+import {
+    canShowStep,
+    INITIAL_WORKFLOW_STATE,
+    resolveStep,
+    transition,
+    TRANSITION_TABLE,
+    WorkflowEvent,
+    WorkflowState,
+    workflowReducer,
+} from './workflow';
+
+const box = { x: 0.1, y: 0.1, width: 0.3, height: 0.6 };
+const alice: DetectedPerson = { id: 'person-1', box };
+const bob: DetectedPerson = { id: 'person-2', box: { ...box, x: 0.5 } };
+const shirt: GarmentSelection = { id: 'g1', sourceImage: 'data:garment', box, category: 'top' };
+
+/** A state as it is once the given step has been reached through the flow. */
+const at = (step: AppState, changes: Partial<WorkflowState> = {}): WorkflowState => {
+    const withPerson = { targetImage: 'data:target', detectedPeople: [alice, bob], selectedPeople: [alice], selectedPerson: alice };
+    const inputs: Record<AppState, Partial<WorkflowState>> = {
+        [AppState.IDLE]: {},
+        [AppState.PROCESSING_IMAGE]: {},
+        [AppState.ANALYZING_TARGET_IMAGE]: { targetImage: 'data:target' },
+        [AppState.TARGET_PERSON_CHOOSING]: { targetImage: 'data:target', detectedPeople: [alice, bob] },
+        [AppState.TARGET_PERSON_SELECTED]: withPerson,
+        [AppState.SOURCE_TYPE_CHOSEN]: withPerson,
+        [AppState.BATCH]: withPerson,
+        [AppState.SOURCE_IMAGE_UPLOADED]: { ...withPerson, sourceImage: 'data:garment' },
+        [AppState.GARMENT_SELECTED]: { ...withPerson, sourceImage: 'data:garment', sourceGarmentBox: box },
+        [AppState.GENERATING]: { ...withPerson, sourceImage: 'data:garment', sourceGarmentBox: box },
+        [AppState.RESULT_READY]: { ...withPerson, sourceImage: 'data:garment', sourceGarmentBox: box },
+        [AppState.ERROR]: { error: 'Something failed' },
+    };
+    return { ...INITIAL_WORKFLOW_STATE, ...inputs[step], step, ...changes };
+};
+
+const ALL_STEPS = Object.values(AppState).filter((step): step is AppState => typeof step === 'number');
+
+/** One event of each type, used to check that every type is refused outside its steps. */
+const SAMPLE_EVENTS: Record<WorkflowEvent['type'], WorkflowEvent> = {
+    restore: { type: 'restore', state: { step: AppState.GARMENT_SELECTED } },
+    reset: { type: 'reset' },
+    back: { type: 'back' },
+    imageProcessingStarted: { type: 'imageProcessingStarted' },
+    targetImageLoaded: { type: 'targetImageLoaded', image: 'data:new', mapping: { originalWidth: 10, originalHeight: 10, width: 10, height: 10 }, original: null },
+    peopleDetected: { type: 'peopleDetected', people: [alice] },
+    peopleChanged: { type: 'peopleChanged', people: [alice] },
+    peopleSelected: { type: 'peopleSelected', people: [alice] },
+    sourceTypeChosen: { type: 'sourceTypeChosen', useSameImage: false },
+    sourceImageLoaded: { type: 'sourceImageLoaded', image: 'data:other' },
+    garmentBoxDrawn: { type: 'garmentBoxDrawn', box },
+    garmentMaskChanged: { type: 'garmentMaskChanged', mask: 'data:mask', bounds: box },
+    detectedGarmentSelected: { type: 'detectedGarmentSelected', garment: { id: 'd1', box, category: 'bottom', color: 'blue', description: 'jeans' } },
+    garmentCategoryChanged: { type: 'garmentCategoryChanged', category: 'outerwear' },
+    garmentAdded: { type: 'garmentAdded', id: 'g2' },
+    garmentRemoved: { type: 'garmentRemoved', id: 'g1' },
+    nextPersonStarted: { type: 'nextPersonStarted', id: 'g2' },
+    sameOutfitForAllChanged: { type: 'sameOutfitForAllChanged', sameOutfitForAll: true },
+    batchOpened: { type: 'batchOpened' },
+    generationStarted: { type: 'generationStarted' },
+    resultsReady: { type: 'resultsReady' },
+    failed: { type: 'failed', message: 'Failed' },
+    retry: { type: 'retry' },
+    cancel: { type: 'cancel' },
+    navigated: { type: 'navigated', step: AppState.IDLE },
+};
+
+describe('transition table', () => {
+    for (const [type, allowed] of Object.entries(TRANSITION_TABLE)) {
+        if (allowed === 'any') continue;
+        const refusedIn = ALL_STEPS.filter(step => !allowed.includes(step));
+        it.each(refusedIn.map(step => [AppState[step]]))(`refuses ${type} in %s`, (name) => {
+            const state = at(AppState[name as keyof typeof AppState]);
+            const result = transition(state, SAMPLE_EVENTS[type as WorkflowEvent['type']]);
+            expect(result.state).toBe(state);
+            expect(result.commands).toEqual([]);
+        });
+    }
+
+    it('accepts reset in every step', () => {
+        for (const step of ALL_STEPS) {
+            const result = transition(at(step), { type: 'reset' });
+            expect(result.state).toEqual(INITIAL_WORKFLOW_STATE);
+            expect(result.commands.map(command => command.type)).toEqual(['abortStep', 'clearResults', 'clearBatch', 'clearInputs', 'clearStorage']);
+        }
+    });
+});
+
+describe('forward transitions', () => {
+    it('restores a saved session', () => {
+        const result = transition(at(AppState.IDLE), { type: 'restore', state: { step: AppState.GARMENT_SELECTED, targetImage: 'data:target' } });
+        expect(result.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(result.state.targetImage).toBe('data:target');
+    });
+
+    it('processes an image from the start page and from the garment upload step', () => {
+        expect(transition(at(AppState.IDLE), { type: 'imageProcessingStarted' }).state.step).toBe(AppState.PROCESSING_IMAGE);
+        expect(transition(at(AppState.SOURCE_TYPE_CHOSEN), { type: 'imageProcessingStarted' }).state.step).toBe(AppState.PROCESSING_IMAGE);
+    });
+
+    it('detects people once the target image is loaded', () => {
+        const result = transition(at(AppState.PROCESSING_IMAGE), SAMPLE_EVENTS.targetImageLoaded);
+        expect(result.state.step).toBe(AppState.ANALYZING_TARGET_IMAGE);
+        expect(result.state.targetImage).toBe('data:new');
+        expect(result.commands).toEqual([{ type: 'detectPeople' }]);
+    });
+
+    it('refuses a second target image', () => {
+        const state = at(AppState.PROCESSING_IMAGE, { targetImage: 'data:target' });
+        expect(transition(state, SAMPLE_EVENTS.targetImageLoaded).state).toBe(state);
+    });
+
+    it('opens the selector with the detected people, even when nobody was found', () => {
+        expect(transition(at(AppState.ANALYZING_TARGET_IMAGE), { type: 'peopleDetected', people: [] }).state.step).toBe(AppState.TARGET_PERSON_CHOOSING);
+        const changed = transition(at(AppState.TARGET_PERSON_CHOOSING), { type: 'peopleChanged', people: [bob] });
+        expect(changed.state.detectedPeople).toEqual([bob]);
+    });
+
+    it('selects people and dresses the first one', () => {
+        const result = transition(at(AppState.TARGET_PERSON_CHOOSING), { type: 'peopleSelected', people: [bob, alice] });
+        expect(result.state.step).toBe(AppState.TARGET_PERSON_SELECTED);
+        expect(result.state.selectedPerson).toBe(bob);
+        expect(result.state.selectedPeople).toEqual([bob, alice]);
+    });
+
+    it('refuses an empty selection', () => {
+        const state = at(AppState.TARGET_PERSON_CHOOSING);
+        expect(transition(state, { type: 'peopleSelected', people: [] }).state).toBe(state);
+    });
+
+    it('uses the target image as the garment photo or asks for another one', () => {
+        const same = transition(at(AppState.TARGET_PERSON_SELECTED), { type: 'sourceTypeChosen', useSameImage: true });
+        expect(same.state.step).toBe(AppState.SOURCE_IMAGE_UPLOADED);
+        expect(same.state.sourceImage).toBe('data:target');
+        const other = transition(at(AppState.TARGET_PERSON_SELECTED), { type: 'sourceTypeChosen', useSameImage: false });
+        expect(other.state.step).toBe(AppState.SOURCE_TYPE_CHOSEN);
+    });
+
+    it('loads a garment photo only after the target image', () => {
+        const loaded = transition(at(AppState.PROCESSING_IMAGE, { targetImage: 'data:target', sourceGarmentBox: box }), SAMPLE_EVENTS.sourceImageLoaded);
+        expect(loaded.state.step).toBe(AppState.SOURCE_IMAGE_UPLOADED);
+        expect(loaded.state.sourceImage).toBe('data:other');
+        expect(loaded.state.sourceGarmentBox).toBeNull();
+        const state = at(AppState.PROCESSING_IMAGE);
+        expect(transition(state, SAMPLE_EVENTS.sourceImageLoaded).state).toBe(state);
+    });
+
+    it('selects the garment by box, mask or detection', () => {
+        expect(transition(at(AppState.SOURCE_IMAGE_UPLOADED), { type: 'garmentBoxDrawn', box }).state.step).toBe(AppState.GARMENT_SELECTED);
+        const masked = transition(at(AppState.SOURCE_IMAGE_UPLOADED), SAMPLE_EVENTS.garmentMaskChanged);
+        expect(masked.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(masked.state.sourceGarmentBox).toEqual(box);
+        const detected = transition(at(AppState.SOURCE_IMAGE_UPLOADED), SAMPLE_EVENTS.detectedGarmentSelected);
+        expect(detected.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(detected.state.garmentCategory).toBe('bottom');
+        expect(transition(at(AppState.GARMENT_SELECTED), SAMPLE_EVENTS.garmentCategoryChanged).state.garmentCategory).toBe('outerwear');
+    });
+
+    it('keeps the drawn box when a mask is painted afterwards', () => {
+        const drawn = { ...box, x: 0.2 };
+        const result = transition(at(AppState.GARMENT_SELECTED, { sourceGarmentBox: drawn }), SAMPLE_EVENTS.garmentMaskChanged);
+        expect(result.state.sourceGarmentBox).toBe(drawn);
+        expect(result.state.sourceGarmentMask).toBe('data:mask');
+    });
+
+    it('adds the garment being edited to the outfit and clears it', () => {
+        const result = transition(at(AppState.GARMENT_SELECTED), { type: 'garmentAdded', id: 'g2' });
+        expect(result.state.step).toBe(AppState.TARGET_PERSON_SELECTED);
+        expect(result.state.garments).toEqual([{ id: 'g2', sourceImage: 'data:garment', box, category: 'top', mask: undefined }]);
+        expect(result.state.sourceImage).toBeNull();
+        expect(result.state.sourceGarmentBox).toBeNull();
+    });
+
+    it('refuses to add a garment without a box', () => {
+        const state = at(AppState.GARMENT_SELECTED, { sourceGarmentBox: null });
+        expect(transition(state, SAMPLE_EVENTS.garmentAdded).state).toBe(state);
+    });
+
+    it('removes a garment from the outfit', () => {
+        const result = transition(at(AppState.TARGET_PERSON_SELECTED, { garments: [shirt] }), SAMPLE_EVENTS.garmentRemoved);
+        expect(result.state.garments).toEqual([]);
+    });
+
+    it('moves on to the next person of a group', () => {
+        const state = at(AppState.GARMENT_SELECTED, { selectedPeople: [alice, bob], garments: [shirt] });
+        const result = transition(state, { type: 'nextPersonStarted', id: 'g2' });
+        expect(result.state.step).toBe(AppState.TARGET_PERSON_SELECTED);
+        expect(result.state.selectedPerson).toBe(bob);
+        expect(result.state.garments).toEqual([]);
+        expect(result.state.dressedPeople).toHaveLength(1);
+        expect(result.state.dressedPeople[0].person).toBe(alice);
+        expect(result.state.dressedPeople[0].garments.map(garment => garment.id)).toEqual(['g1', 'g2']);
+    });
+
+    it('refuses to move on when nobody is left or everyone wears the same outfit', () => {
+        const alone = at(AppState.GARMENT_SELECTED);
+        expect(transition(alone, SAMPLE_EVENTS.nextPersonStarted).state).toBe(alone);
+        const same = at(AppState.GARMENT_SELECTED, { selectedPeople: [alice, bob], sameOutfitForAll: true });
+        expect(transition(same, SAMPLE_EVENTS.nextPersonStarted).state).toBe(same);
+    });
+
+    it('switches between one outfit for all and one outfit each', () => {
+        expect(transition(at(AppState.TARGET_PERSON_SELECTED), SAMPLE_EVENTS.sameOutfitForAllChanged).state.sameOutfitForAll).toBe(true);
+    });
+
+    it('opens the batch only with a selected person', () => {
+        expect(transition(at(AppState.TARGET_PERSON_SELECTED), { type: 'batchOpened' }).state.step).toBe(AppState.BATCH);
+        const state = at(AppState.TARGET_PERSON_SELECTED, { selectedPerson: null });
+        expect(transition(state, { type: 'batchOpened' }).state).toBe(state);
+    });
+
+    it('starts generating once the outfit is complete', () => {
+        const result = transition(at(AppState.GARMENT_SELECTED), { type: 'generationStarted' });
+        expect(result.state.step).toBe(AppState.GENERATING);
+        expect(result.commands).toEqual([{ type: 'generate' }]);
+    });
+
+    it('refuses to generate with an incomplete outfit', () => {
+        for (const changes of [{ targetImage: null }, { selectedPerson: null }, { sourceGarmentBox: null }]) {
+            const state = at(AppState.GARMENT_SELECTED, changes);
+            const result = transition(state, { type: 'generationStarted' });
+            expect(result.state).toBe(state);
+            expect(result.commands).toEqual([]);
+        }
+    });
+
+    it('shows results when generated or taken from the cache', () => {
+        expect(transition(at(AppState.GENERATING), { type: 'resultsReady' }).state.step).toBe(AppState.RESULT_READY);
+        expect(transition(at(AppState.GARMENT_SELECTED), { type: 'resultsReady' }).state.step).toBe(AppState.RESULT_READY);
+    });
+});
+
+describe('failures', () => {
+    it('remembers detection and generation as retryable', () => {
+        for (const step of [AppState.ANALYZING_TARGET_IMAGE, AppState.GENERATING]) {
+            const result = transition(at(step), { type: 'failed', message: 'Failed', detail: 'raw' });
+            expect(result.state).toMatchObject({ step: AppState.ERROR, error: 'Failed', errorDetail: 'raw', failedStep: step });
+        }
+    });
+
+    it('does not offer a retry for image problems', () => {
+        const result = transition(at(AppState.PROCESSING_IMAGE), { type: 'failed', message: 'Too large' });
+        expect(result.state.failedStep).toBeNull();
+        expect(transition(result.state, { type: 'retry' }).state).toBe(result.state);
+    });
+
+    it('retries the failed step and clears the error', () => {
+        const failed = transition(at(AppState.GENERATING), SAMPLE_EVENTS.failed).state;
+        const result = transition(failed, { type: 'retry' });
+        expect(result.state).toMatchObject({ step: AppState.GENERATING, error: null, errorDetail: null, failedStep: null });
+        expect(result.commands).toEqual([{ type: 'generate' }]);
+        const failedDetection = transition(at(AppState.ANALYZING_TARGET_IMAGE), SAMPLE_EVENTS.failed).state;
+        expect(transition(failedDetection, { type: 'retry' }).commands).toEqual([{ type: 'detectPeople' }]);
+    });
+});
+
+describe('cancel', () => {
+    it('drops the target image when detection is cancelled', () => {
+        const result = transition(at(AppState.ANALYZING_TARGET_IMAGE), { type: 'cancel' });
+        expect(result.state).toMatchObject({ step: AppState.IDLE, targetImage: null });
+        expect(result.commands).toEqual([{ type: 'abortStep' }]);
+    });
+
+    it('returns to the garment when generation is cancelled', () => {
+        const result = transition(at(AppState.GENERATING), { type: 'cancel' });
+        expect(result.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(result.state.sourceGarmentBox).toEqual(box);
+        expect(result.commands).toEqual([{ type: 'abortStep' }]);
+    });
+});
+
+describe('back', () => {
+    const back = (state: WorkflowState) => transition(state, { type: 'back' });
+
+    it('drops the results when going back from them', () => {
+        const result = back(at(AppState.RESULT_READY));
+        expect(result.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(result.commands).toEqual([{ type: 'clearResults' }]);
+    });
+
+    it('clears the garment box and mask when going back from the selected garment', () => {
+        const result = back(at(AppState.GARMENT_SELECTED, { sourceGarmentMask: 'data:mask' }));
+        expect(result.state).toMatchObject({ step: AppState.SOURCE_IMAGE_UPLOADED, sourceGarmentBox: null, sourceGarmentMask: null });
+        expect(result.state.sourceImage).toBe('data:garment');
+    });
+
+    it('clears the garment photo and its category when going back from it', () => {
+        const result = back(at(AppState.SOURCE_IMAGE_UPLOADED, { garmentCategory: 'shoes', sourceGarmentBox: box }));
+        expect(result.state).toMatchObject({ step: AppState.TARGET_PERSON_SELECTED, sourceImage: null, sourceGarmentBox: null, garmentCategory: 'top' });
+    });
+
+    it('returns from the garment upload step', () => {
+        expect(back(at(AppState.SOURCE_TYPE_CHOSEN)).state.step).toBe(AppState.TARGET_PERSON_SELECTED);
+    });
+
+    it('reopens the most recently added garment', () => {
+        const other = { ...shirt, id: 'g2', category: 'bottom' as const, mask: 'data:mask' };
+        const result = back(at(AppState.TARGET_PERSON_SELECTED, { garments: [shirt, other] }));
+        expect(result.state).toMatchObject({
+            step: AppState.GARMENT_SELECTED,
+            garments: [shirt],
+            sourceGarmentBox: other.box,
+            sourceGarmentMask: 'data:mask',
+            garmentCategory: 'bottom',
+        });
+    });
+
+    it('reopens the outfit of the previously dressed person', () => {
+        const state = at(AppState.TARGET_PERSON_SELECTED, {
+            selectedPeople: [alice, bob],
+            selectedPerson: bob,
+            dressedPeople: [{ person: alice, garments: [shirt, { ...shirt, id: 'g2' }] }],
+        });
+        const result = back(state);
+        expect(result.state).toMatchObject({ step: AppState.GARMENT_SELECTED, selectedPerson: alice, dressedPeople: [], garments: [shirt] });
+    });
+
+    it('returns to the selector without a chosen person', () => {
+        const result = back(at(AppState.TARGET_PERSON_SELECTED, { sameOutfitForAll: true }));
+        expect(result.state).toMatchObject({ step: AppState.TARGET_PERSON_CHOOSING, selectedPerson: null, sameOutfitForAll: false });
+    });
+
+    it('drops the target image and everyone selected when going back from the selector', () => {
+        const result = back(at(AppState.TARGET_PERSON_CHOOSING, { selectedPeople: [alice] }));
+        expect(result.state).toMatchObject({ step: AppState.IDLE, targetImage: null, detectedPeople: [], selectedPeople: [] });
+    });
+
+    it('drops the batch when going back from it', () => {
+        const result = back(at(AppState.BATCH));
+        expect(result.state.step).toBe(AppState.TARGET_PERSON_SELECTED);
+        expect(result.commands).toEqual([{ type: 'clearBatch' }]);
+    });
+
+    it('starts over when going back from an error', () => {
+        const result = back(at(AppState.ERROR));
+        expect(result.state).toEqual(INITIAL_WORKFLOW_STATE);
+        expect(result.commands).toContainEqual({ type: 'clearStorage' });
+    });
+});
+
+describe('navigation', () => {
+    it('steps back through the history until the route is reached', () => {
+        const result = transition(at(AppState.GARMENT_SELECTED), { type: 'navigated', step: AppState.TARGET_PERSON_CHOOSING, direction: 'back' });
+        expect(result.state).toMatchObject({ step: AppState.TARGET_PERSON_CHOOSING, sourceImage: null, sourceGarmentBox: null, selectedPerson: null });
+    });
+
+    it('steps back at least once even to a later route', () => {
+        const result = transition(at(AppState.TARGET_PERSON_SELECTED, { garments: [shirt] }), { type: 'navigated', step: AppState.GARMENT_SELECTED, direction: 'back' });
+        expect(result.state).toMatchObject({ step: AppState.GARMENT_SELECTED, garments: [] });
+    });
+
+    it('cancels a running generation on going back', () => {
+        const result = transition(at(AppState.GENERATING), { type: 'navigated', step: AppState.SOURCE_IMAGE_UPLOADED, direction: 'back' });
+        expect(result.state.step).toBe(AppState.GARMENT_SELECTED);
+        expect(result.commands).toEqual([{ type: 'abortStep' }]);
+    });
+
+    it('goes forward only as far as the inputs allow', () => {
+        const selected = at(AppState.TARGET_PERSON_SELECTED);
+        expect(transition(selected, { type: 'navigated', step: AppState.BATCH, direction: 'forward' }).state.step).toBe(AppState.BATCH);
+        expect(transition(selected, { type: 'navigated', step: AppState.GARMENT_SELECTED, direction: 'forward' }).state).toBe(selected);
+    });
+
+    it('redirects a link without a target image to the start page', () => {
+        expect(resolveStep(INITIAL_WORKFLOW_STATE, AppState.SOURCE_IMAGE_UPLOADED)).toBe(AppState.IDLE);
+        expect(resolveStep(at(AppState.SOURCE_IMAGE_UPLOADED), AppState.RESULT_READY)).toBe(AppState.SOURCE_IMAGE_UPLOADED);
+        expect(canShowStep(at(AppState.GARMENT_SELECTED), AppState.ERROR)).toBe(false);
+    });
+
+    it('treats a hand-edited earlier route as going back', () => {
+        const result = transition(at(AppState.SOURCE_IMAGE_UPLOADED), { type: 'navigated', step: AppState.IDLE });
+        expect(result.state).toMatchObject({ step: AppState.IDLE, targetImage: null });
+    });
+});
+
+describe('workflowReducer', () => {
+    const machine = (state: WorkflowState) => ({ state, commands: [] });
+
+    it('queues commands until they are taken', () => {
+        const started = workflowReducer(machine(at(AppState.GARMENT_SELECTED)), { type: 'generationStarted' });
+        expect(started.commands).toEqual([{ type: 'generate' }]);
+        const taken = workflowReducer(started, { type: 'commandsTaken' });
+        expect(taken.commands).toEqual([]);
+        expect(taken.state).toBe(started.state);
+    });
+
+    it('starts a generation only once when the event fires twice', () => {
+        const once = workflowReducer(machine(at(AppState.GARMENT_SELECTED)), { type: 'generationStarted' });
+        const twice = workflowReducer(once, { type: 'generationStarted' });
+        expect(twice).toBe(once);
+        expect(twice.commands).toEqual([{ type: 'generate' }]);
+    });
+
+    it('keeps the same machine for refused events so React skips the render', () => {
+        const idle = machine(at(AppState.IDLE));
+        expect(workflowReducer(idle, { type: 'back' })).toBe(idle);
+        expect(workflowReducer(idle, { type: 'commandsTaken' })).toBe(idle);
+    });
+});
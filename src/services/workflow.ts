@@ -0,0 +1,519 @@
+// src/services/workflow.ts
+
+import { AppState, BoundingBox, DetectedGarment, DetectedPerson, GarmentCategory, GarmentSelection, ImageMapping, PersonOutfit } from '../types';
+
+/**
+ * The step-by-step try-on flow: the current step and the inputs collected so far. Results,
+ * batch runs, history and settings live outside it.
+ */
+export interface WorkflowState {
+    step: AppState;
+    targetImage: string | null;
+    /** Pixel size of the uploaded target photo the normalized target image was made from. */
+    targetImageMapping: ImageMapping | null;
+    /** The full-resolution target photo, kept only when targetImage had to be downscaled. */
+    targetOriginalImage: string | null;
+    detectedPeople: DetectedPerson[];
+    /** Everyone picked to be dressed. */
+    selectedPeople: DetectedPerson[];
+    /** The person whose outfit is being chosen right now. */
+    selectedPerson: DetectedPerson | null;
+    /** Finished outfits of the other selected people; they are dressed after selectedPerson. */
+    dressedPeople: PersonOutfit[];
+    sameOutfitForAll: boolean;
+    /** The garment being edited. Garments already added to the outfit are in `garments`. */
+    sourceImage: string | null;
+    sourceGarmentBox: BoundingBox | null;
+    /** Optional mask painted over the garment being edited; see GarmentSelection.mask. */
+    sourceGarmentMask: string | null;
+    garmentCategory: GarmentCategory;
+    garments: GarmentSelection[];
+    /** Localized message shown in the ERROR step. */
+    error: string | null;
+    /** The provider's raw detail for the error, if it had one. */
+    errorDetail: string | null;
+    /** The detection or generation step that failed and can be retried. */
+    failedStep: AppState | null;
+}
+
+export const INITIAL_WORKFLOW_STATE: WorkflowState = {
+    step: AppState.IDLE,
+    targetImage: null,
+    targetImageMapping: null,
+    targetOriginalImage: null,
+    detectedPeople: [],
+    selectedPeople: [],
+    selectedPerson: null,
+    dressedPeople: [],
+    sameOutfitForAll: false,
+    sourceImage: null,
+    sourceGarmentBox: null,
+    sourceGarmentMask: null,
+    garmentCategory: 'top',
+    garments: [],
+    error: null,
+    errorDetail: null,
+    failedStep: null,
+};
+
+/**
+ * Side effects asked for by a transition. The workflow never runs them; the app does, and
+ * reports their outcome back as events.
+ */
+export type WorkflowCommand =
+    /** Detect the people in the target image. */
+    | { type: 'detectPeople' }
+    /** Generate results for the current outfits. */
+    | { type: 'generate' }
+    /** Abort the running detection or generation. */
+    | { type: 'abortStep' }
+    /** Drop the result candidates and any background change or refinement of them. */
+    | { type: 'clearResults' }
+    /** Stop and drop the batch run. */
+    | { type: 'clearBatch' }
+    /** Put the generation options, background and other inputs kept by the app back to their defaults. */
+    | { type: 'clearInputs' }
+    /** Delete the saved session and history. */
+    | { type: 'clearStorage' };
+
+export type WorkflowEvent =
+    /** A saved session was loaded at start-up. */
+    | { type: 'restore'; state: Partial<WorkflowState> }
+    | { type: 'reset' }
+    | { type: 'back' }
+    /** An uploaded, pasted or fetched image is being normalized and checked. */
+    | { type: 'imageProcessingStarted' }
+    | { type: 'targetImageLoaded'; image: string; mapping: ImageMapping; original: string | null }
+    | { type: 'peopleDetected'; people: DetectedPerson[] }
+    /** A person box was adjusted or a person was drawn by hand. */
+    | { type: 'peopleChanged'; people: DetectedPerson[] }
+    | { type: 'peopleSelected'; people: DetectedPerson[] }
+    | { type: 'sourceTypeChosen'; useSameImage: boolean }
+    | { type: 'sourceImageLoaded'; image: string }
+    | { type: 'garmentBoxDrawn'; box: BoundingBox }
+    /** The mask is drawn alongside the box; a first mask without a box also supplies the box. */
+    | { type: 'garmentMaskChanged'; mask: string | null; bounds: BoundingBox | null }
+    | { type: 'detectedGarmentSelected'; garment: DetectedGarment }
+    | { type: 'garmentCategoryChanged'; category: GarmentCategory }
+    /** The garment being edited joins the outfit under the given id. */
+    | { type: 'garmentAdded'; id: string }
+    | { type: 'garmentRemoved'; id: string }
+    /** The outfit being edited is finished, under the given id for its last garment, and the next person is up. */
+    | { type: 'nextPersonStarted'; id: string }
+    | { type: 'sameOutfitForAllChanged'; sameOutfitForAll: boolean }
+    | { type: 'batchOpened' }
+    | { type: 'generationStarted' }
+    /** Results were generated, or taken from the cache instead. */
+    | { type: 'resultsReady' }
+    /** The current step failed; `message` is already localized. */
+    | { type: 'failed'; message: string; detail?: string }
+    | { type: 'retry' }
+    | { type: 'cancel' }
+    /**
+     * The browser moved to the route of `step`. Going back steps back at least once, and on until that
+     * step or an earlier one is reached; going forward only goes as far as the collected inputs allow.
+     * Without a direction, as for a URL edited by hand, it follows from where the step is in the flow.
+     */
+    | { type: 'navigated'; step: AppState; direction?: 'back' | 'forward' };
+
+export interface Transition {
+    state: WorkflowState;
+    commands: WorkflowCommand[];
+}
+
+const GARMENT_STEPS = [AppState.SOURCE_IMAGE_UPLOADED, AppState.GARMENT_SELECTED];
+const OUTFIT_STEPS = [AppState.TARGET_PERSON_SELECTED, ...GARMENT_STEPS];
+
+/**
+ * The steps each event is accepted in. Events arriving in any other step, such as a late
+ * detection result after the user went back, are ignored.
+ */
+export const TRANSITION_TABLE: Record<WorkflowEvent['type'], AppState[] | 'any'> = {
+    restore: [AppState.IDLE],
+    reset: 'any',
+    back: [
+        AppState.TARGET_PERSON_CHOOSING,
+        AppState.TARGET_PERSON_SELECTED,
+        AppState.SOURCE_TYPE_CHOSEN,
+        ...GARMENT_STEPS,
+        AppState.RESULT_READY,
+        AppState.ERROR,
+        AppState.BATCH,
+    ],
+    imageProcessingStarted: [AppState.IDLE, AppState.SOURCE_TYPE_CHOSEN],
+    targetImageLoaded: [AppState.PROCESSING_IMAGE],
+    peopleDetected: [AppState.ANALYZING_TARGET_IMAGE],
+    peopleChanged: [AppState.TARGET_PERSON_CHOOSING],
+    peopleSelected: [AppState.TARGET_PERSON_CHOOSING],
+    sourceTypeChosen: [AppState.TARGET_PERSON_SELECTED],
+    sourceImageLoaded: [AppState.PROCESSING_IMAGE],
+    garmentBoxDrawn: GARMENT_STEPS,
+    garmentMaskChanged: GARMENT_STEPS,
+    detectedGarmentSelected: GARMENT_STEPS,
+    garmentCategoryChanged: GARMENT_STEPS,
+    garmentAdded: [AppState.GARMENT_SELECTED],
+    garmentRemoved: OUTFIT_STEPS,
+    nextPersonStarted: [AppState.GARMENT_SELECTED],
+    sameOutfitForAllChanged: OUTFIT_STEPS,
+    batchOpened: [AppState.TARGET_PERSON_SELECTED],
+    generationStarted: [AppState.GARMENT_SELECTED],
+    resultsReady: [AppState.GENERATING, AppState.GARMENT_SELECTED],
+    failed: [AppState.SOURCE_TYPE_CHOSEN, AppState.PROCESSING_IMAGE, AppState.ANALYZING_TARGET_IMAGE, AppState.GENERATING],
+    retry: [AppState.ERROR],
+    cancel: [AppState.ANALYZING_TARGET_IMAGE, AppState.GENERATING],
+    navigated: [
+        AppState.IDLE,
+        AppState.ANALYZING_TARGET_IMAGE,
+        AppState.TARGET_PERSON_CHOOSING,
+        AppState.TARGET_PERSON_SELECTED,
+        AppState.SOURCE_TYPE_CHOSEN,
+        ...GARMENT_STEPS,
+        AppState.GENERATING,
+        AppState.RESULT_READY,
+        AppState.ERROR,
+        AppState.BATCH,
+    ],
+};
+
+/**
+ * How far into the flow each step is. Steps that run in between share the position of the step
+ * they started from.
+ */
+const FLOW_POSITION: Record<AppState, number> = {
+    [AppState.IDLE]: 0,
+    [AppState.PROCESSING_IMAGE]: 0,
+    [AppState.ANALYZING_TARGET_IMAGE]: 0,
+    [AppState.TARGET_PERSON_CHOOSING]: 1,
+    [AppState.TARGET_PERSON_SELECTED]: 2,
+    [AppState.SOURCE_TYPE_CHOSEN]: 3,
+    [AppState.BATCH]: 3,
+    [AppState.SOURCE_IMAGE_UPLOADED]: 4,
+    [AppState.GARMENT_SELECTED]: 5,
+    [AppState.GENERATING]: 5,
+    [AppState.RESULT_READY]: 6,
+    [AppState.ERROR]: 7,
+};
+
+/**
+ * The step shown instead of each step when its inputs are missing.
+ */
+const FALLBACK_STEP: Record<AppState, AppState> = {
+    [AppState.IDLE]: AppState.IDLE,
+    [AppState.PROCESSING_IMAGE]: AppState.IDLE,
+    [AppState.ANALYZING_TARGET_IMAGE]: AppState.IDLE,
+    [AppState.TARGET_PERSON_CHOOSING]: AppState.IDLE,
+    [AppState.TARGET_PERSON_SELECTED]: AppState.TARGET_PERSON_CHOOSING,
+    [AppState.SOURCE_TYPE_CHOSEN]: AppState.TARGET_PERSON_SELECTED,
+    [AppState.BATCH]: AppState.TARGET_PERSON_SELECTED,
+    [AppState.SOURCE_IMAGE_UPLOADED]: AppState.TARGET_PERSON_SELECTED,
+    [AppState.GARMENT_SELECTED]: AppState.SOURCE_IMAGE_UPLOADED,
+    [AppState.GENERATING]: AppState.GARMENT_SELECTED,
+    [AppState.RESULT_READY]: AppState.GARMENT_SELECTED,
+    [AppState.ERROR]: AppState.IDLE,
+};
+
+/**
+ * Whether the step offers a Back button.
+ */
+export const canGoBack = (step: AppState): boolean => (TRANSITION_TABLE.back as AppState[]).includes(step);
+
+/**
+ * Whether the running detection or generation can be cancelled.
+ */
+export const canCancel = (step: AppState): boolean => (TRANSITION_TABLE.cancel as AppState[]).includes(step);
+
+/**
+ * Whether the collected inputs are enough to show the step directly, e.g. when it is opened from a
+ * link. Results are not part of the workflow, and running or failed steps are never opened this way.
+ */
+export const canShowStep = (state: WorkflowState, step: AppState): boolean => {
+    const hasPerson = state.targetImage !== null && state.selectedPerson !== null;
+    switch (step) {
+        case AppState.IDLE:
+            return true;
+        case AppState.TARGET_PERSON_CHOOSING:
+            return state.targetImage !== null;
+        case AppState.TARGET_PERSON_SELECTED:
+        case AppState.SOURCE_TYPE_CHOSEN:
+        case AppState.BATCH:
+            return hasPerson;
+        case AppState.SOURCE_IMAGE_UPLOADED:
+            return hasPerson && state.sourceImage !== null;
+        case AppState.GARMENT_SELECTED:
+            return hasPerson && state.sourceImage !== null && state.sourceGarmentBox !== null;
+        default:
+            return false;
+    }
+};
+
+/**
+ * The furthest step towards `step` that the collected inputs allow showing.
+ */
+export const resolveStep = (state: WorkflowState, step: AppState): AppState => {
+    let resolved = step;
+    while (!canShowStep(state, resolved)) {
+        resolved = FALLBACK_STEP[resolved];
+    }
+    return resolved;
+};
+
+/**
+ * Whether `step` comes after `from` on the way through the flow.
+ */
+const isAheadOf = (step: AppState, from: AppState): boolean => {
+    for (let current = step; current !== AppState.IDLE;) {
+        current = FALLBACK_STEP[current];
+        if (current === from) return true;
+    }
+    return false;
+};
+
+/**
+ * The next selected person who has no outfit yet, when a group is dressed one by one.
+ */
+export const getNextPersonToDress = (state: WorkflowState): DetectedPerson | undefined =>
+    state.sameOutfitForAll ? undefined : state.selectedPeople.find(person =>
+        person.id !== state.selectedPerson?.id && !state.dressedPeople.some(outfit => outfit.person.id === person.id)
+    );
+
+/**
+ * The garment being edited, as it would join the outfit.
+ */
+const currentGarment = (state: WorkflowState, id: string): GarmentSelection | null =>
+    state.sourceImage && state.sourceGarmentBox
+        ? { id, sourceImage: state.sourceImage, box: state.sourceGarmentBox, category: state.garmentCategory, mask: state.sourceGarmentMask ?? undefined }
+        : null;
+
+const withoutCurrentGarment = {
+    sourceImage: null,
+    sourceGarmentBox: null,
+    sourceGarmentMask: null,
+    garmentCategory: 'top',
+} satisfies Partial<WorkflowState>;
+
+/**
+ * Opens a garment of the outfit for editing again, taking it out of the outfit.
+ */
+const editGarment = (garment: GarmentSelection): Partial<WorkflowState> => ({
+    step: AppState.GARMENT_SELECTED,
+    sourceImage: garment.sourceImage,
+    sourceGarmentBox: garment.box,
+    sourceGarmentMask: garment.mask ?? null,
+    garmentCategory: garment.category,
+});
+
+const stepBack = (state: WorkflowState): Transition | null => {
+    const to = (changes: Partial<WorkflowState>, commands: WorkflowCommand[] = []): Transition => ({ state: { ...state, ...changes }, commands });
+    switch (state.step) {
+        case AppState.RESULT_READY:
+            return to({ step: AppState.GARMENT_SELECTED }, [{ type: 'clearResults' }]);
+        case AppState.GARMENT_SELECTED:
+            return to({ step: AppState.SOURCE_IMAGE_UPLOADED, sourceGarmentBox: null, sourceGarmentMask: null });
+        case AppState.SOURCE_IMAGE_UPLOADED:
+            return to({ step: AppState.TARGET_PERSON_SELECTED, ...withoutCurrentGarment });
+        case AppState.SOURCE_TYPE_CHOSEN:
+            return to({ step: AppState.TARGET_PERSON_SELECTED });
+        case AppState.TARGET_PERSON_SELECTED: {
+            const lastGarment = state.garments[state.garments.length - 1];
+            if (lastGarment) {
+                // Step back into editing the most recently added garment.
+                return to({ ...editGarment(lastGarment), garments: state.garments.slice(0, -1) });
+            }
+            const previous = state.dressedPeople[state.dressedPeople.length - 1];
+            if (previous) {
+                // Step back into the outfit of the previously dressed person.
+                return to({
+                    ...editGarment(previous.garments[previous.garments.length - 1]),
+                    selectedPerson: previous.person,
+                    garments: previous.garments.slice(0, -1),
+                    dressedPeople: state.dressedPeople.slice(0, -1),
+                });
+            }
+            return to({ step: AppState.TARGET_PERSON_CHOOSING, selectedPerson: null, sameOutfitForAll: false });
+        }
+        case AppState.TARGET_PERSON_CHOOSING:
+            return to({
+                step: AppState.IDLE,
+                targetImage: null,
+                targetImageMapping: null,
+                targetOriginalImage: null,
+                detectedPeople: [],
+                selectedPeople: [],
+            });
+        case AppState.BATCH:
+            return to({ step: AppState.TARGET_PERSON_SELECTED }, [{ type: 'clearBatch' }]);
+        case AppState.ERROR:
+            return reset();
+        default:
+            return null;
+    }
+};
+
+/**
+ * Steps back once, then on until `step` or an earlier step is reached. Every step back drops
+ * something, so this always ends.
+ */
+const stepBackTo = (state: WorkflowState, step: AppState): Transition | null => {
+    let result = stepBack(state);
+    while (result && result.state.step !== step && FLOW_POSITION[result.state.step] > FLOW_POSITION[step]) {
+        const next = stepBack(result.state);
+        if (!next) break;
+        result = { state: next.state, commands: [...result.commands, ...next.commands] };
+    }
+    return result;
+};
+
+const reset = (): Transition => ({
+    state: INITIAL_WORKFLOW_STATE,
+    commands: [{ type: 'abortStep' }, { type: 'clearResults' }, { type: 'clearBatch' }, { type: 'clearInputs' }, { type: 'clearStorage' }],
+});
+
+/**
+ * Applies one event, or returns null when the event is not allowed in the current state.
+ */
+const apply = (state: WorkflowState, event: WorkflowEvent): Transition | null => {
+    const to = (changes: Partial<WorkflowState>, commands: WorkflowCommand[] = []): Transition => ({ state: { ...state, ...changes }, commands });
+    switch (event.type) {
+        case 'restore':
+            return to({ ...event.state });
+        case 'reset':
+            return reset();
+        case 'back':
+            return stepBack(state);
+        case 'imageProcessingStarted':
+            return to({ step: AppState.PROCESSING_IMAGE });
+        case 'targetImageLoaded':
+            // There is only one target image; images processed after it are garment photos.
+            if (state.targetImage) return null;
+            return to({
+                step: AppState.ANALYZING_TARGET_IMAGE,
+                targetImage: event.image,
+                targetImageMapping: event.mapping,
+                targetOriginalImage: event.original,
+            }, [{ type: 'detectPeople' }]);
+        case 'peopleDetected':
+        case 'peopleChanged':
+            // With nobody found the selector still opens, so the person can be drawn by hand.
+            return to({ step: AppState.TARGET_PERSON_CHOOSING, detectedPeople: event.people });
+        case 'peopleSelected':
+            if (event.people.length === 0) return null;
+            return to({
+                step: AppState.TARGET_PERSON_SELECTED,
+                selectedPeople: event.people,
+                selectedPerson: event.people[0],
+                dressedPeople: [],
+            });
+        case 'sourceTypeChosen':
+            return event.useSameImage
+                ? to({ step: AppState.SOURCE_IMAGE_UPLOADED, ...withoutCurrentGarment, sourceImage: state.targetImage })
+                : to({ step: AppState.SOURCE_TYPE_CHOSEN });
+        case 'sourceImageLoaded':
+            if (!state.targetImage) return null;
+            return to({ step: AppState.SOURCE_IMAGE_UPLOADED, ...withoutCurrentGarment, sourceImage: event.image });
+        case 'garmentBoxDrawn':
+            return to({ step: AppState.GARMENT_SELECTED, sourceGarmentBox: event.box });
+        case 'garmentMaskChanged':
+            if (event.bounds && !state.sourceGarmentBox) {
+                return to({ step: AppState.GARMENT_SELECTED, sourceGarmentMask: event.mask, sourceGarmentBox: event.bounds });
+            }
+            return to({ sourceGarmentMask: event.mask });
+        case 'detectedGarmentSelected':
+            return to({ step: AppState.GARMENT_SELECTED, sourceGarmentBox: event.garment.box, garmentCategory: event.garment.category });
+        case 'garmentCategoryChanged':
+            return to({ garmentCategory: event.category });
+        case 'garmentAdded': {
+            const garment = currentGarment(state, event.id);
+            if (!garment) return null;
+            return to({ step: AppState.TARGET_PERSON_SELECTED, ...withoutCurrentGarment, garments: [...state.garments, garment] });
+        }
+        case 'garmentRemoved':
+            return to({ garments: state.garments.filter(garment => garment.id !== event.id) });
+        case 'nextPersonStarted': {
+            const garment = currentGarment(state, event.id);
+            const nextPerson = getNextPersonToDress(state);
+            if (!garment || !state.selectedPerson || !nextPerson) return null;
+            return to({
+                step: AppState.TARGET_PERSON_SELECTED,
+                ...withoutCurrentGarment,
+                dressedPeople: [...state.dressedPeople, { person: state.selectedPerson, garments: [...state.garments, garment] }],
+                selectedPerson: nextPerson,
+                garments: [],
+            });
+        }
+        case 'sameOutfitForAllChanged':
+            return to({ sameOutfitForAll: event.sameOutfitForAll });
+        case 'batchOpened':
+            return state.selectedPerson ? to({ step: AppState.BATCH }) : null;
+        case 'generationStarted':
+            if (!state.targetImage || !state.selectedPerson || !currentGarment(state, 'current')) return null;
+            return to({ step: AppState.GENERATING }, [{ type: 'generate' }]);
+        case 'resultsReady':
+            return to({ step: AppState.RESULT_READY });
+        case 'failed':
+            return to({
+                step: AppState.ERROR,
+                error: event.message,
+                errorDetail: event.detail ?? null,
+                // Detection and generation can be retried by hand, e.g. after fixing the settings.
+                failedStep: state.step === AppState.ANALYZING_TARGET_IMAGE || state.step === AppState.GENERATING ? state.step : null,
+            });
+        case 'retry':
+            if (state.failedStep === null) return null;
+            return to(
+                { step: state.failedStep },
+                [{ type: state.failedStep === AppState.ANALYZING_TARGET_IMAGE ? 'detectPeople' : 'generate' }]
+            );
+        case 'cancel':
+            return state.step === AppState.ANALYZING_TARGET_IMAGE
+                ? to({ step: AppState.IDLE, targetImage: null, targetImageMapping: null, targetOriginalImage: null }, [{ type: 'abortStep' }])
+                : to({ step: AppState.GARMENT_SELECTED }, [{ type: 'abortStep' }]);
+        case 'navigated': {
+            const direction = event.direction ?? (FLOW_POSITION[event.step] < FLOW_POSITION[state.step] ? 'back' : 'forward');
+            if (direction === 'back') {
+                // Going back while detection or generation runs cancels it.
+                return canCancel(state.step) ? apply(state, { type: 'cancel' }) : stepBackTo(state, event.step);
+            }
+            const step = resolveStep(state, event.step);
+            return isAheadOf(step, state.step) ? to({ step }) : null;
+        }
+    }
+};
+
+/**
+ * Computes the state after an event and the side effects to run for it. Events that are not
+ * allowed in the current step, or whose guard fails, leave the state unchanged and ask for nothing.
+ * The error fields only ever describe the ERROR step and are cleared on leaving it.
+ */
+export const transition = (state: WorkflowState, event: WorkflowEvent): Transition => {
+    const allowed = TRANSITION_TABLE[event.type];
+    const result = allowed === 'any' || allowed.includes(state.step) ? apply(state, event) : null;
+    if (!result) {
+        return { state, commands: [] };
+    }
+    if (result.state.step !== AppState.ERROR && result.state.error !== null) {
+        result.state = { ...result.state, error: null, errorDetail: null, failedStep: null };
+    }
+    return result;
+};
+
+/**
+ * The workflow state together with the commands its transitions asked for and nobody ran yet.
+ */
+export interface WorkflowMachine {
+    state: WorkflowState;
+    commands: WorkflowCommand[];
+}
+
+/**
+ * Reducer for `useReducer`. Commands pile up until the app takes them with `commandsTaken`.
+ */
+export const workflowReducer = (machine: WorkflowMachine, event: WorkflowEvent | { type: 'commandsTaken' }): WorkflowMachine => {
+    if (event.type === 'commandsTaken') {
+        return machine.commands.length === 0 ? machine : { ...machine, commands: [] };
+    }
+    const { state, commands } = transition(machine.state, event);
+    if (state === machine.state && commands.length === 0) {
+        return machine;
+    }
+    return { state, commands: [...machine.commands, ...commands] };
+};
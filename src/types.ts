@@ -9,6 +9,8 @@ export enum AppState {
   GENERATING,
   RESULT_READY,
   ERROR,
+  BATCH,
+  PROCESSING_IMAGE,
 }
 
 export interface BoundingBox {
@@ -18,19 +20,385 @@ export interface BoundingBox {
   height: number;
 }
 
+/**
+ * How a normalized image relates to the photo it was made from. Normalization only rotates
+ * (for EXIF orientation) and scales uniformly, so normalized box coordinates (0-1) mean the same
+ * area in both; the mapping provides the pixel sizes needed to go back to original pixels.
+ */
+export interface ImageMapping {
+  /** Size of the original after applying its EXIF orientation, in pixels. */
+  originalWidth: number;
+  originalHeight: number;
+  /** Size of the normalized image, in pixels. */
+  width: number;
+  height: number;
+}
+
+export type BodyRegion = 'head' | 'torso' | 'legs' | 'feet';
+
+export const BODY_REGIONS: BodyRegion[] = ['head', 'torso', 'legs', 'feet'];
+
+export interface BodyRegionDetection {
+  box: BoundingBox;
+  /** False when the region is cut off by the frame or hidden behind something. */
+  visible: boolean;
+}
+
+/** `sideOn` means turned sideways to the camera; `other` covers lying, crouching and the like. */
+export type PersonPose = 'standing' | 'sitting' | 'sideOn' | 'other';
+
+export const PERSON_POSES: PersonPose[] = ['standing', 'sitting', 'sideOn', 'other'];
+
 export interface DetectedPerson {
   id: string;
   box: BoundingBox;
+  /** Missing for detections made before regions were requested, or when the model omitted them. */
+  regions?: Partial<Record<BodyRegion, BodyRegionDetection>>;
+  /**
+   * Short description that tells the person apart from the others, e.g. "woman in red coat, left".
+   * This and the other attributes are missing for people drawn by hand or detected before they
+   * were requested.
+   */
+  description?: string;
+  /** What the person is wearing now, one item per entry, e.g. "red wool coat". */
+  clothing?: string[];
+  pose?: PersonPose;
+}
+
+export type GarmentCategory = 'top' | 'bottom' | 'outerwear' | 'shoes' | 'accessory';
+
+export const GARMENT_CATEGORIES: GarmentCategory[] = ['top', 'bottom', 'outerwear', 'shoes', 'accessory'];
+
+/**
+ * A garment found automatically in a source image.
+ */
+export interface DetectedGarment {
+  id: string;
+  box: BoundingBox;
+  category: GarmentCategory;
+  color: string;
+  description: string;
+}
+
+export interface GarmentSelection {
+  id: string;
+  sourceImage: string;
+  box: BoundingBox;
+  category: GarmentCategory;
+  /**
+   * Optional white-on-black PNG data URL at the source image's size marking exactly which pixels
+   * belong to the garment, for when the box also covers other clothing.
+   */
+  mask?: string;
+}
+
+/**
+ * The outfit chosen for one person of a group photo.
+ */
+export interface PersonOutfit {
+  person: DetectedPerson;
+  garments: GarmentSelection[];
+}
+
+/**
+ * Scores (0-100) from the automatic check of a generated result.
+ */
+export interface VerificationResult {
+  garmentFidelity: number;
+  identityPreservation: number;
+  backgroundPreservation: number;
+  passed: boolean;
+  /** The model's short explanation of the verdict. */
+  notes?: string;
+}
+
+export interface VerificationRequest {
+  targetImage: string;
+  personBox: BoundingBox;
+  /** One crop per garment, in outfit order. */
+  garmentImages: string[];
+  resultImage: string;
 }
 
 export interface HistoryItem {
   id: string;
   generatedImage: string;
+  isFavorite?: boolean;
+  verification?: VerificationResult;
+  /** Set on refined versions: the version this one was edited from. */
+  parentId?: string;
+  /** Set on refined versions: the original result at the start of the edit chain. */
+  rootId?: string;
+  /** Set on refined versions: the follow-up instruction that produced this version. */
+  instruction?: string;
+  /** Set on results of a batch run: the id of the batch, shared by all of its results. */
+  batchId?: string;
+}
+
+/**
+ * `detecting`: looking for the garment. `needsBox`: nothing found, a box has to be drawn.
+ * `ready`: waiting in the queue. `running`, `done` and `failed` follow the generation.
+ */
+export type BatchItemStatus = 'detecting' | 'needsBox' | 'ready' | 'running' | 'done' | 'failed';
+
+/**
+ * One garment image of a batch run, tried on the selected person on its own.
+ */
+export interface BatchItem {
+  id: string;
+  sourceImage: string;
+  /** Null until a garment was detected or drawn. */
+  box: BoundingBox | null;
+  category: GarmentCategory;
+  status: BatchItemStatus;
+  result?: string;
+  /** Localized reason of the last failure. */
+  error?: string;
+}
+
+/**
+ * One earlier edit of a refinement conversation.
+ */
+export interface RefinementTurn {
+  instruction: string;
+  image: string;
+}
+
+export interface RefinementRequest {
+  /** The original result the conversation started from. */
+  baseImage: string;
+  /** Earlier edits, oldest first. The new instruction applies to the last turn's image. */
+  turns: RefinementTurn[];
+  instruction: string;
+  language: Language;
+  /** The refinement template; defaults to the built-in one for `language`. */
+  template?: string;
+}
+
+export type CacheKind = 'detection' | 'generation';
+
+export interface CacheEntry<T = unknown> {
+  /** SHA-256 of everything that influences the result. */
+  key: string;
+  kind: CacheKind;
+  createdAt: number;
+  value: T;
+}
+
+/**
+ * The cached outcome of a generation: every candidate image, with its verification if one ran.
+ */
+export interface CachedGeneration {
+  images: string[];
+  verifications: (VerificationResult | undefined)[];
 }
 
+export type CandidateStatus = 'pending' | 'kept' | 'discarded';
+
+/**
+ * One of the images produced by a generation run, awaiting the user's keep/discard decision.
+ * Its id doubles as the history item id once kept.
+ */
+export interface ResultCandidate {
+  id: string;
+  image: string;
+  status: CandidateStatus;
+  isFavorite: boolean;
+  /** Missing when verification is switched off or could not be completed. */
+  verification?: VerificationResult;
+}
+
+export type CandidateMode = 'parallel' | 'sequential';
+
 export type Language = 'ko' | 'en';
 
+export type PromptTemplateKind = 'detection' | 'garmentDetection' | 'tryOn' | 'tryOnGarment' | 'backgroundReplace' | 'verification' | 'refine';
+
+export type PromptTemplates = Record<PromptTemplateKind, string>;
+
+export type GarmentFit = 'auto' | 'slim' | 'regular' | 'oversized';
+export type TuckStyle = 'auto' | 'tucked' | 'untucked';
+export type SleeveStyle = 'auto' | 'rolled' | 'down';
+
+/**
+ * Styling choices for a generation. 'auto' leaves the decision to the model.
+ */
+export interface GenerationOptions {
+  fit: GarmentFit;
+  tuck: TuckStyle;
+  sleeves: SleeveStyle;
+  /** Keep the face and hair exactly as in the target image. */
+  preserveIdentity: boolean;
+  /** Keep glasses, jewellery, bags and other accessories the person already wears. */
+  keepAccessories: boolean;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  fit: 'auto',
+  tuck: 'auto',
+  sleeves: 'auto',
+  preserveIdentity: true,
+  keepAccessories: false,
+};
+
+export type BackgroundPreset = 'street' | 'beach' | 'office';
+
+export const BACKGROUND_PRESETS: BackgroundPreset[] = ['street', 'beach', 'office'];
+
+/**
+ * What to do with the scene behind the person in a result.
+ */
+export type BackgroundMode =
+  | { type: 'preserve' }
+  | { type: 'studio' }
+  | { type: 'preset'; preset: BackgroundPreset }
+  | { type: 'custom'; image: string };
+
+/**
+ * Everything needed to dress one person in one generation.
+ */
+export interface TryOnRequest {
+  targetImage: string;
+  personBox: BoundingBox;
+  garments: GarmentSelection[];
+  /** What the person wears now, from detection, so the model knows what it is replacing. */
+  currentClothing?: string[];
+  language: Language;
+  options?: GenerationOptions;
+  /** Defaults to preserving the target image's background. */
+  background?: BackgroundMode;
+  /** Custom prompt templates; the built-in ones for `language` are used when omitted. */
+  promptTemplates?: PromptTemplates;
+}
+
+export type UsageKind = 'detection' | 'generation';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+/**
+ * One billed model call. Retries are recorded as separate calls.
+ */
+export interface UsageRecord {
+  id: string;
+  /** Start of the call, in milliseconds since the epoch. */
+  timestamp: number;
+  model: string;
+  kind: UsageKind;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+}
+
+/**
+ * Price of a model in US dollars per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type TryOnProviderId = 'gemini' | 'mock' | 'proxy';
+
+/**
+ * Bodies exchanged with the server proxy under `api/`. They carry the same arguments and
+ * results as the matching provider calls in geminiService.ts.
+ */
+export interface DetectProxyRequest {
+  target: 'people' | 'garments';
+  image: string;
+  modelName: string;
+  prompt?: string;
+}
+
+/**
+ * Every proxy response lists the model calls the server made for it, so the browser can track
+ * usage as if it had made them itself.
+ */
+export interface ProxyUsage {
+  usage?: UsageRecord[];
+}
+
+export interface DetectProxyResponse extends ProxyUsage {
+  people?: DetectedPerson[];
+  garments?: DetectedGarment[];
+}
+
+export interface GenerateProxyRequest {
+  request: TryOnRequest;
+  modelName: string;
+}
+
+export interface GenerateProxyResponse extends ProxyUsage {
+  image: string;
+}
+
+export interface BackgroundProxyRequest {
+  image: string;
+  background: BackgroundMode;
+  language: Language;
+  modelName: string;
+  template?: string;
+}
+
+export interface RefineProxyRequest {
+  request: RefinementRequest;
+  modelName: string;
+}
+
+/** Answers both background replacement and refinement. */
+export interface ImageProxyResponse extends ProxyUsage {
+  image: string;
+}
+
+export interface VerifyProxyRequest {
+  request: VerificationRequest;
+  modelName: string;
+  template?: string;
+}
+
+export interface VerifyProxyResponse extends ProxyUsage {
+  verification: VerificationResult;
+}
+
+/** Returned with every non-2xx proxy response; `code` is a FitUpErrorCode. */
+export interface ProxyErrorResponse extends ProxyUsage {
+  code: string;
+  detail?: string;
+}
+
+/**
+ * A value encrypted with AES-GCM under a key derived from a passphrase with PBKDF2.
+ * Binary fields are base64 encoded.
+ */
+export interface EncryptedSecret {
+  id: string;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  iterations: number;
+}
+
 export interface AppSettings {
+  provider: TryOnProviderId;
+  /** Where the server proxy is served, used by the 'proxy' provider. */
+  proxyBaseUrl: string;
   detectionModel: string;
   generationModel: string;
+  candidateCount: number;
+  candidateMode: CandidateMode;
+  verifyResults: boolean;
+  /**
+   * Send only a padded crop around the person for try-on and blend the result back into the
+   * full-resolution photo, leaving everything outside the crop untouched.
+   */
+  cropAndStitch: boolean;
+  /** Longest edge, in pixels, that uploaded images are downscaled to before use. */
+  maxImageEdge: number;
+  modelPrices: Record<string, ModelPrice>;
+  /** Warn before generating once this many images were generated today. 0 turns the warning off. */
+  dailyGenerationLimit: number;
+  /** Warn before generating once today's estimated cost reaches this many dollars. 0 turns the warning off. */
+  dailyCostLimit: number;
 }
\ No newline at end of file
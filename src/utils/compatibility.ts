@@ -0,0 +1,36 @@
+// utils/compatibility.ts
+
+import { BodyRegion, DetectedPerson, GarmentCategory, GarmentSelection } from '../types';
+
+/**
+ * The body regions a garment of each category has to be put on. Accessories can go
+ * almost anywhere, so they are never checked.
+ */
+const CATEGORY_BODY_REGIONS: Record<GarmentCategory, BodyRegion[]> = {
+  top: ['torso'],
+  outerwear: ['torso'],
+  bottom: ['legs'],
+  shoes: ['feet'],
+  accessory: [],
+};
+
+export interface CompatibilityIssue {
+  garmentId: string;
+  category: GarmentCategory;
+  region: BodyRegion;
+}
+
+/**
+ * Lists the garments that would go on a body region the detection reported as not visible,
+ * e.g. trousers for a person cropped at the waist. Regions the detection did not return
+ * are assumed to be fine, so people detected without regions never produce issues.
+ */
+export const findCompatibilityIssues = (
+  person: DetectedPerson,
+  garments: Pick<GarmentSelection, 'id' | 'category'>[]
+): CompatibilityIssue[] =>
+  garments.flatMap(garment =>
+    CATEGORY_BODY_REGIONS[garment.category]
+      .filter(region => person.regions?.[region]?.visible === false)
+      .map(region => ({ garmentId: garment.id, category: garment.category, region }))
+  );
@@ -1,9 +1,13 @@
-import { HistoryItem } from "../types";
+import { CacheEntry, EncryptedSecret, HistoryItem, Language, PromptTemplates, UsageRecord } from "../types";
 
 const DB_NAME = 'FitUpDB';
 const SESSION_STORE_NAME = 'session';
 const HISTORY_STORE_NAME = 'history';
-const DB_VERSION = 1;
+const PROMPT_TEMPLATE_STORE_NAME = 'promptTemplates';
+const CACHE_STORE_NAME = 'cache';
+const USAGE_STORE_NAME = 'usage';
+const SECRET_STORE_NAME = 'secrets';
+const DB_VERSION = 5;
 
 let dbInstance: IDBDatabase | null = null;
 
@@ -33,6 +37,18 @@ const getDb = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(HISTORY_STORE_NAME)) {
         db.createObjectStore(HISTORY_STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(PROMPT_TEMPLATE_STORE_NAME)) {
+        db.createObjectStore(PROMPT_TEMPLATE_STORE_NAME, { keyPath: 'language' });
+      }
+      if (!db.objectStoreNames.contains(CACHE_STORE_NAME)) {
+        db.createObjectStore(CACHE_STORE_NAME, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE_NAME)) {
+        db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SECRET_STORE_NAME)) {
+        db.createObjectStore(SECRET_STORE_NAME, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -66,5 +82,30 @@ export const clearSession = (): Promise<any> => makeRequest(SESSION_STORE_NAME,
 
 // History Management
 export const saveHistoryItem = (item: HistoryItem): Promise<any> => makeRequest(HISTORY_STORE_NAME, 'readwrite', store => store.put(item));
+export const deleteHistoryItem = (id: string): Promise<any> => makeRequest(HISTORY_STORE_NAME, 'readwrite', store => store.delete(id));
 export const loadAllHistoryItems = (): Promise<HistoryItem[]> => makeRequest<HistoryItem[]>(HISTORY_STORE_NAME, 'readonly', store => store.getAll()).then(items => items.sort((a, b) => b.id.localeCompare(a.id))); // Sort descending by ID (timestamp)
-export const clearHistory = (): Promise<any> => makeRequest(HISTORY_STORE_NAME, 'readwrite', store => store.clear());
\ No newline at end of file
+export const clearHistory = (): Promise<any> => makeRequest(HISTORY_STORE_NAME, 'readwrite', store => store.clear());
+
+// Prompt Template Management (only customized languages are stored)
+export const savePromptTemplates = (language: Language, templates: PromptTemplates): Promise<any> => makeRequest(PROMPT_TEMPLATE_STORE_NAME, 'readwrite', store => store.put({ language, templates }));
+export const loadPromptTemplates = async (): Promise<Partial<Record<Language, PromptTemplates>>> => {
+    const records = await makeRequest<{ language: Language; templates: PromptTemplates }[]>(PROMPT_TEMPLATE_STORE_NAME, 'readonly', store => store.getAll());
+    return Object.fromEntries(records.map(record => [record.language, record.templates]));
+};
+export const deletePromptTemplates = (language: Language): Promise<any> => makeRequest(PROMPT_TEMPLATE_STORE_NAME, 'readwrite', store => store.delete(language));
+
+// Result Cache (entries are keyed by a content hash, see services/cacheService.ts)
+export const getCacheEntry = <T>(key: string): Promise<CacheEntry<T> | undefined> => makeRequest<CacheEntry<T> | undefined>(CACHE_STORE_NAME, 'readonly', store => store.get(key));
+export const putCacheEntry = (entry: CacheEntry): Promise<any> => makeRequest(CACHE_STORE_NAME, 'readwrite', store => store.put(entry));
+export const loadAllCacheEntries = (): Promise<CacheEntry[]> => makeRequest<CacheEntry[]>(CACHE_STORE_NAME, 'readonly', store => store.getAll());
+export const clearCache = (): Promise<any> => makeRequest(CACHE_STORE_NAME, 'readwrite', store => store.clear());
+
+// API Usage Records
+export const saveUsageRecord = (record: UsageRecord): Promise<any> => makeRequest(USAGE_STORE_NAME, 'readwrite', store => store.put(record));
+export const loadUsageRecords = (): Promise<UsageRecord[]> => makeRequest<UsageRecord[]>(USAGE_STORE_NAME, 'readonly', store => store.getAll());
+export const clearUsageRecords = (): Promise<any> => makeRequest(USAGE_STORE_NAME, 'readwrite', store => store.clear());
+
+// Encrypted Secrets (only ciphertext is stored, see utils/secrets.ts)
+export const saveSecret = (secret: EncryptedSecret): Promise<any> => makeRequest(SECRET_STORE_NAME, 'readwrite', store => store.put(secret));
+export const loadSecret = (id: string): Promise<EncryptedSecret | undefined> => makeRequest<EncryptedSecret | undefined>(SECRET_STORE_NAME, 'readonly', store => store.get(id));
+export const deleteSecret = (id: string): Promise<any> => makeRequest(SECRET_STORE_NAME, 'readwrite', store => store.delete(id));
@@ -0,0 +1,18 @@
+// utils/fileUtils.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { centeredCropRect } from './fileUtils';
+
+describe('centeredCropRect', () => {
+    it('cuts the sides off an image that is too wide', () => {
+        expect(centeredCropRect(1600, 900, 1)).toEqual({ x: 350, y: 0, width: 900, height: 900 });
+    });
+
+    it('cuts the top and bottom off an image that is too tall', () => {
+        expect(centeredCropRect(900, 1600, 9 / 8)).toEqual({ x: 0, y: 400, width: 900, height: 800 });
+    });
+
+    it('keeps an image that already has the ratio', () => {
+        expect(centeredCropRect(800, 600, 4 / 3)).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+    });
+});
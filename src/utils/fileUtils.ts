@@ -1,3 +1,5 @@
+import { BoundingBox, ImageMapping } from '../types';
+
 
 export const blobToBase64 = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -8,6 +10,174 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     });
 };
 
+export const loadImage = (base64: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = (err) => reject(err);
+      img.src = base64;
+    });
+};
+
+/**
+ * Cuts the area of a normalized bounding box out of an image.
+ * @returns A promise that resolves to a PNG data URL of the crop.
+ */
+export const cropImage = async (base64: string, box: BoundingBox): Promise<string> => {
+    const image = await loadImage(base64);
+    const sx = Math.max(0, Math.round(box.x * image.naturalWidth));
+    const sy = Math.max(0, Math.round(box.y * image.naturalHeight));
+    const width = Math.max(1, Math.min(Math.round(box.width * image.naturalWidth), image.naturalWidth - sx));
+    const height = Math.max(1, Math.min(Math.round(box.height * image.naturalHeight), image.naturalHeight - sy));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get a 2D canvas context.');
+    }
+    context.drawImage(image, sx, sy, width, height, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * The largest centred area of an image with the given aspect ratio (width / height), in pixels.
+ * Drawing only this area into a target of that ratio fills it without stretching; a model that
+ * padded its output to another ratio loses exactly the padding.
+ */
+export const centeredCropRect = (width: number, height: number, aspectRatio: number): BoundingBox => {
+    if (width / height > aspectRatio) {
+        const croppedWidth = height * aspectRatio;
+        return { x: (width - croppedWidth) / 2, y: 0, width: croppedWidth, height };
+    }
+    const croppedHeight = width / aspectRatio;
+    return { x: 0, y: (height - croppedHeight) / 2, width, height: croppedHeight };
+};
+
+/**
+ * Scales an image to exactly the given size, stretching it if the aspect ratio differs.
+ * @returns A promise that resolves to a PNG data URL of the scaled image.
+ */
+export const resizeImage = async (base64: string, width: number, height: number): Promise<string> => {
+    const image = await loadImage(base64);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get a 2D canvas context.');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+export const DEFAULT_MAX_IMAGE_EDGE = 1536;
+
+/**
+ * Largest file accepted from an upload, paste or URL. Photos are downscaled before they are used,
+ * so this only keeps out files too big to decode; large phone photos have to get through.
+ */
+export const MAX_UPLOAD_MB = 40;
+export const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
+/** Largest normalized image passed on to detection and generation. */
+export const MAX_NORMALIZED_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Size in bytes of the data a base64 data URL holds.
+ */
+export const dataUrlBytes = (dataUrl: string): number => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+// Source formats that may carry transparency are converted to PNG; everything else becomes JPEG.
+const ALPHA_FORMATS = ['image/png', 'image/gif', 'image/webp'];
+const JPEG_QUALITY = 0.92;
+
+export interface NormalizedImage {
+    dataUrl: string;
+    mapping: ImageMapping;
+    /**
+     * The upright original at full resolution, converted like `dataUrl` but not downscaled.
+     * Only set when requested and the image actually had to be downscaled.
+     */
+    original?: string;
+}
+
+/**
+ * Prepares an uploaded image for the rest of the app: applies its EXIF orientation, converts any
+ * format the browser can decode (GIF, BMP, AVIF, ...) to PNG or JPEG, and downscales it so its
+ * longest edge is at most `maxEdge`. Images are never upscaled.
+ * @param source A file/blob or a data URL.
+ * @param keepOriginal Also return the full-resolution upright original.
+ * @throws Error('UNSUPPORTED_IMAGE') if the browser cannot decode the image.
+ * @throws Error('IMAGE_TOO_LARGE') if the normalized image is larger than MAX_NORMALIZED_IMAGE_BYTES.
+ */
+export const normalizeImage = async (
+    source: Blob | string,
+    maxEdge: number = DEFAULT_MAX_IMAGE_EDGE,
+    keepOriginal = false
+): Promise<NormalizedImage> => {
+    const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch (error) {
+        console.error('Could not decode image:', error);
+        throw new Error('UNSUPPORTED_IMAGE');
+    }
+
+    try {
+        const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const mimeType = ALPHA_FORMATS.includes(blob.type) ? 'image/png' : 'image/jpeg';
+
+        const render = (targetWidth: number, targetHeight: number) => {
+            const canvas = document.createElement('canvas');
+            canvas.width = targetWidth;
+            canvas.height = targetHeight;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Could not get a 2D canvas context.');
+            }
+            if (mimeType === 'image/jpeg') {
+                // JPEG has no alpha channel; flatten onto white instead of black.
+                context.fillStyle = '#ffffff';
+                context.fillRect(0, 0, targetWidth, targetHeight);
+            }
+            context.imageSmoothingQuality = 'high';
+            context.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+            return canvas.toDataURL(mimeType, JPEG_QUALITY);
+        };
+
+        const dataUrl = render(width, height);
+        if (dataUrlBytes(dataUrl) > MAX_NORMALIZED_IMAGE_BYTES) {
+            throw new Error('IMAGE_TOO_LARGE');
+        }
+        return {
+            dataUrl,
+            mapping: { originalWidth: bitmap.width, originalHeight: bitmap.height, width, height },
+            original: keepOriginal && scale < 1 ? render(bitmap.width, bitmap.height) : undefined,
+        };
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Converts a normalized bounding box to pixel coordinates in the original photo.
+ */
+export const toOriginalPixels = (box: BoundingBox, mapping: ImageMapping): BoundingBox => ({
+    x: box.x * mapping.originalWidth,
+    y: box.y * mapping.originalHeight,
+    width: box.width * mapping.originalWidth,
+    height: box.height * mapping.originalHeight,
+});
+
 export const urlToBase64 = async (url: string, maxSize: number): Promise<string> => {
     try {
         // Use a CORS proxy for development or if direct fetching is blocked
@@ -1,5 +1,7 @@
 // utils/imageQuality.ts
 
+import { loadImage } from './fileUtils';
+
 const MIN_RESOLUTION_WIDTH = 300;
 const MIN_RESOLUTION_HEIGHT = 300;
 const DARKNESS_THRESHOLD = 70; // Average pixel brightness (0-255)
@@ -12,15 +14,6 @@ export interface QualityResult {
   issues: QualityIssue[];
 }
 
-const loadImage = (base64: string): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = (err) => reject(err);
-    img.src = base64;
-  });
-};
-
 const calculateLaplacianVariance = (context: CanvasRenderingContext2D, width: number, height: number): number => {
     const imageData = context.getImageData(0, 0, width, height);
     const gray = new Uint8ClampedArray(width * height);
@@ -0,0 +1,65 @@
+// utils/retry.ts
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt. */
+  retries: number;
+  /** Delay cap for the first retry; doubles on every further attempt. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  /** Stops further attempts and interrupts the backoff wait when aborted. */
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  shouldRetry: () => true,
+};
+
+/**
+ * Resolves after the given delay, or rejects with the signal's reason as soon as it is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs an async operation, retrying failures with exponential backoff and full jitter.
+ * @param operation The operation to run. Receives the zero-based attempt number.
+ * @param options Overrides for the default retry policy.
+ * @returns The result of the first successful attempt.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, shouldRetry, signal, onRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      onRetry?.(attempt + 1, error, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
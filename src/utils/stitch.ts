@@ -0,0 +1,152 @@
+// utils/stitch.ts
+
+import { BoundingBox, ImageMapping } from '../types';
+import { centeredCropRect, loadImage, toOriginalPixels } from './fileUtils';
+
+/** Padding added on every side of the person box, as a fraction of the box size. */
+const CROP_PADDING = 0.25;
+/** Width of the blended seam, as a fraction of the crop's shorter edge. */
+const FEATHER_FRACTION = 0.06;
+
+export interface StitchCrop {
+  /** The padded region around the person, scaled down to at most `maxEdge`. */
+  image: string;
+  /** Where the crop sits in the full-resolution image, normalized to it. */
+  region: BoundingBox;
+  /** The person box, normalized to the crop. */
+  personBox: BoundingBox;
+}
+
+/**
+ * Pads a normalized box on every side and clips it to the image.
+ */
+const padBox = (box: BoundingBox, padding: number): BoundingBox => {
+  const x = Math.max(0, box.x - box.width * padding);
+  const y = Math.max(0, box.y - box.height * padding);
+  const right = Math.min(1, box.x + box.width * (1 + padding));
+  const bottom = Math.min(1, box.y + box.height * (1 + padding));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * The smallest box containing all of the given boxes.
+ */
+export const unionBox = (boxes: BoundingBox[]): BoundingBox => {
+  const x = Math.min(...boxes.map(box => box.x));
+  const y = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Maps a box normalized to the full image into a crop of it.
+ * @param region Where the crop sits in the full image, as returned by `cropAroundPerson`.
+ */
+export const toCropBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  x: (box.x - region.x) / region.width,
+  y: (box.y - region.y) / region.height,
+  width: box.width / region.width,
+  height: box.height / region.height,
+});
+
+/**
+ * Whole-pixel rectangle of a normalized box in an image of the given size.
+ */
+const toPixelRect = (box: BoundingBox, width: number, height: number) => {
+  const mapping: ImageMapping = { originalWidth: width, originalHeight: height, width, height };
+  const pixels = toOriginalPixels(box, mapping);
+  const x = Math.round(pixels.x);
+  const y = Math.round(pixels.y);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(pixels.x + pixels.width), width) - x),
+    height: Math.max(1, Math.min(Math.round(pixels.y + pixels.height), height) - y),
+  };
+};
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get a 2D canvas context.');
+  }
+  return context;
+};
+
+/**
+ * Cuts a padded region around a person out of the full-resolution image, so the model spends its
+ * output resolution on the person instead of the whole photo.
+ * @param personBox The person box, normalized to the image.
+ * @param maxEdge Longest edge the crop is scaled down to, like any other model input.
+ */
+export const cropAroundPerson = async (image: string, personBox: BoundingBox, maxEdge: number): Promise<StitchCrop> => {
+  const source = await loadImage(image);
+  const rect = toPixelRect(padBox(personBox, CROP_PADDING), source.naturalWidth, source.naturalHeight);
+  // Work with the rounded rectangle so crop and stitch line up to the pixel.
+  const region: BoundingBox = {
+    x: rect.x / source.naturalWidth,
+    y: rect.y / source.naturalHeight,
+    width: rect.width / source.naturalWidth,
+    height: rect.height / source.naturalHeight,
+  };
+
+  const scale = Math.min(1, maxEdge / Math.max(rect.width, rect.height));
+  const context = createContext(Math.max(1, Math.round(rect.width * scale)), Math.max(1, Math.round(rect.height * scale)));
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, context.canvas.width, context.canvas.height);
+
+  return {
+    image: context.canvas.toDataURL('image/png'),
+    region,
+    personBox: toCropBox(personBox, region),
+  };
+};
+
+/**
+ * Blends a generated crop back into the full-resolution image it was cut from. The crop fades in
+ * over a feathered seam along every edge that lies inside the photo; edges on the photo border are
+ * kept hard. Pixels outside the region are copied unchanged and the result is a PNG, so nothing
+ * outside the region is recompressed.
+ * @param region Where the crop was cut from, as returned by `cropAroundPerson`.
+ */
+export const stitchIntoOriginal = async (original: string, generatedCrop: string, region: BoundingBox): Promise<string> => {
+  const [base, crop] = await Promise.all([loadImage(original), loadImage(generatedCrop)]);
+  const rect = toPixelRect(region, base.naturalWidth, base.naturalHeight);
+
+  // The model may answer in another aspect ratio; only the centred part matching the region is
+  // used, so the person keeps their proportions.
+  const source = centeredCropRect(crop.naturalWidth, crop.naturalHeight, rect.width / rect.height);
+  const patch = createContext(rect.width, rect.height);
+  patch.imageSmoothingQuality = 'high';
+  patch.drawImage(crop, source.x, source.y, source.width, source.height, 0, 0, rect.width, rect.height);
+
+  const feather = Math.max(1, Math.round(Math.min(rect.width, rect.height) * FEATHER_FRACTION));
+  const featherLeft = rect.x > 0;
+  const featherTop = rect.y > 0;
+  const featherRight = rect.x + rect.width < base.naturalWidth;
+  const featherBottom = rect.y + rect.height < base.naturalHeight;
+  const pixels = patch.getImageData(0, 0, rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      let distance = feather;
+      if (featherLeft) distance = Math.min(distance, x);
+      if (featherTop) distance = Math.min(distance, y);
+      if (featherRight) distance = Math.min(distance, rect.width - 1 - x);
+      if (featherBottom) distance = Math.min(distance, rect.height - 1 - y);
+      if (distance < feather) {
+        const alpha = pixels.data[(y * rect.width + x) * 4 + 3];
+        pixels.data[(y * rect.width + x) * 4 + 3] = Math.round(alpha * (distance / feather));
+      }
+    }
+  }
+  patch.putImageData(pixels, 0, 0);
+
+  const result = createContext(base.naturalWidth, base.naturalHeight);
+  result.drawImage(base, 0, 0);
+  result.drawImage(patch.canvas, rect.x, rect.y);
+  return result.canvas.toDataURL('image/png');
+};
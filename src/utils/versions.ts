@@ -0,0 +1,26 @@
+// utils/versions.ts
+
+import { HistoryItem } from '../types';
+
+/**
+ * Returns the chain of versions that led to the given history item, from the original result
+ * to the item itself. The chain stops early if an ancestor is no longer in the history.
+ */
+export const getVersionChain = (history: HistoryItem[], id: string): HistoryItem[] => {
+  const byId = new Map(history.map(item => [item.id, item]));
+  const chain: HistoryItem[] = [];
+  let current = byId.get(id);
+  while (current) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+/**
+ * Returns the original result and every refined version made from it, oldest first.
+ */
+export const getVersions = (history: HistoryItem[], rootId: string): HistoryItem[] =>
+  history
+    .filter(item => item.id === rootId || item.rootId === rootId)
+    .sort((a, b) => a.id.localeCompare(b.id));
@@ -1,7 +1,42 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Serves the serverless functions in `api/` from the dev server, so the proxy provider works
+// locally without the Vercel CLI. Run with FITUP_PROVIDER=mock to try it without a Google key.
+const apiRoutes = (): Plugin => ({
+  name: 'fitup-api-routes',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const match = req.url?.match(/^\/api\/(detect|generate|background|refine|verify)(?:\?|$)/)
+      if (!match) return next()
+      try {
+        const { POST } = await server.ssrLoadModule(`/api/${match[1]}.ts`)
+        const chunks: Buffer[] = []
+        for await (const chunk of req) chunks.push(chunk as Buffer)
+        const headers = new Headers()
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (typeof value === 'string') headers.set(key, value)
+        }
+        if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) {
+          headers.set('x-forwarded-for', req.socket.remoteAddress)
+        }
+        const request = new Request(new URL(req.url!, `http://${req.headers.host}`), {
+          method: req.method,
+          headers,
+          body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+        })
+        const response: Response = await POST(request)
+        res.statusCode = response.status
+        response.headers.forEach((value, key) => res.setHeader(key, value))
+        res.end(Buffer.from(await response.arrayBuffer()))
+      } catch (e) {
+        next(e)
+      }
+    })
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), apiRoutes()],
 })